@@ -15,6 +15,14 @@ i18n.init({
         copy_button: 'Copy',
         copy_success: 'Copied',
         copy_failed: 'Copy Failed',
+        room_status_checking: 'Checking room status…',
+        room_status_live: 'Live now · {{count}} online',
+        room_status_waiting: 'Room is open, waiting for participants to reconnect',
+        room_status_closed: 'This room has been closed by the host',
+        room_status_not_found: 'Room not found or expired',
+        room_status_unavailable: 'Room status is unavailable right now',
+        room_status_update_required: 'This room needs the latest version of Whiteboard. Please update your app before joining.',
+        room_status_file: 'File: {{fileName}}',
         section_download: 'Downloads',
         download_ios_label: 'iOS / macOS',
         download_google_label: 'Google Play',
@@ -57,6 +65,14 @@ i18n.init({
         copy_button: '复制',
         copy_success: '已复制',
         copy_failed: '复制失败',
+        room_status_checking: '正在查询房间状态…',
+        room_status_live: '协作进行中 · {{count}} 人在线',
+        room_status_waiting: '房间已开启，等待成员重新连接',
+        room_status_closed: '该房间已被主持人关闭',
+        room_status_not_found: '房间不存在或已过期',
+        room_status_unavailable: '暂时无法获取房间状态',
+        room_status_update_required: '该房间需要最新版本的白板，请先更新应用再加入。',
+        room_status_file: '文件：{{fileName}}',
         section_download: '安装下载',
         download_ios_label: 'iOS / macOS',
         download_google_label: 'Google Play',
@@ -99,6 +115,14 @@ i18n.init({
         copy_button: '複製',
         copy_success: '已複製',
         copy_failed: '複製失敗',
+        room_status_checking: '正在查詢房間狀態…',
+        room_status_live: '協作進行中 · {{count}} 人在線',
+        room_status_waiting: '房間已開啟，等待成員重新連線',
+        room_status_closed: '此房間已被主持人關閉',
+        room_status_not_found: '房間不存在或已過期',
+        room_status_unavailable: '暫時無法取得房間狀態',
+        room_status_update_required: '此房間需要最新版本的白板，請先更新應用程式再加入。',
+        room_status_file: '檔案：{{fileName}}',
         section_download: '安裝下載',
         download_ios_label: 'iOS / macOS',
         download_google_label: 'Google Play',
@@ -141,6 +165,14 @@ i18n.init({
         copy_button: 'コピー',
         copy_success: 'コピー完了',
         copy_failed: 'コピー失敗',
+        room_status_checking: 'ルームの状態を確認中…',
+        room_status_live: 'コラボ中 · {{count}} 人がオンライン',
+        room_status_waiting: 'ルームは開いています。参加者の再接続を待っています',
+        room_status_closed: 'このルームはホストによって閉じられました',
+        room_status_not_found: 'ルームが存在しないか、期限切れです',
+        room_status_unavailable: '現在ルームの状態を取得できません',
+        room_status_update_required: 'このルームには最新版のホワイトボードが必要です。参加する前にアプリを更新してください。',
+        room_status_file: 'ファイル：{{fileName}}',
         section_download: 'ダウンロード',
         download_ios_label: 'iOS / macOS',
         download_google_label: 'Google Play',
@@ -183,6 +215,14 @@ i18n.init({
         copy_button: 'نسخ',
         copy_success: 'تم النسخ',
         copy_failed: 'فشل النسخ',
+        room_status_checking: 'جارٍ التحقق من حالة الغرفة…',
+        room_status_live: 'مباشر الآن · {{count}} متصل',
+        room_status_waiting: 'الغرفة مفتوحة، بانتظار إعادة اتصال المشاركين',
+        room_status_closed: 'أغلق المضيف هذه الغرفة',
+        room_status_not_found: 'الغرفة غير موجودة أو منتهية الصلاحية',
+        room_status_unavailable: 'حالة الغرفة غير متاحة حاليًا',
+        room_status_update_required: 'تتطلب هذه الغرفة أحدث إصدار من Whiteboard. يرجى تحديث التطبيق قبل الانضمام.',
+        room_status_file: 'الملف: {{fileName}}',
         section_download: 'التنزيل',
         download_ios_label: 'iOS / macOS',
         download_google_label: 'Google Play',
@@ -225,6 +265,14 @@ i18n.init({
         copy_button: 'Copiar',
         copy_success: 'Copiado',
         copy_failed: 'Error al copiar',
+        room_status_checking: 'Comprobando el estado de la sala…',
+        room_status_live: 'En directo · {{count}} conectados',
+        room_status_waiting: 'La sala está abierta, esperando a que los participantes se reconecten',
+        room_status_closed: 'El anfitrión ha cerrado esta sala',
+        room_status_not_found: 'La sala no existe o ha caducado',
+        room_status_unavailable: 'El estado de la sala no está disponible en este momento',
+        room_status_update_required: 'Esta sala requiere la última versión de Whiteboard. Actualiza la aplicación antes de unirte.',
+        room_status_file: 'Archivo: {{fileName}}',
         section_download: 'Descargas',
         download_ios_label: 'iOS / macOS',
         download_google_label: 'Google Play',
@@ -267,6 +315,14 @@ i18n.init({
         copy_button: 'Copiar',
         copy_success: 'Copiado',
         copy_failed: 'Falha ao copiar',
+        room_status_checking: 'Verificando o status da sala…',
+        room_status_live: 'Ao vivo · {{count}} online',
+        room_status_waiting: 'A sala está aberta, aguardando a reconexão dos participantes',
+        room_status_closed: 'Esta sala foi fechada pelo anfitrião',
+        room_status_not_found: 'Sala não encontrada ou expirada',
+        room_status_unavailable: 'O status da sala não está disponível no momento',
+        room_status_update_required: 'Esta sala requer a versão mais recente do Whiteboard. Atualize o aplicativo antes de entrar.',
+        room_status_file: 'Arquivo: {{fileName}}',
         section_download: 'Downloads',
         download_ios_label: 'iOS / macOS',
         download_google_label: 'Google Play',
@@ -309,6 +365,14 @@ i18n.init({
         copy_button: 'Copier',
         copy_success: 'Copié',
         copy_failed: 'Échec de la copie',
+        room_status_checking: 'Vérification de l\'état de la salle…',
+        room_status_live: 'En direct · {{count}} en ligne',
+        room_status_waiting: 'La salle est ouverte, en attente de la reconnexion des participants',
+        room_status_closed: 'Cette salle a été fermée par l\'hôte',
+        room_status_not_found: 'Salle introuvable ou expirée',
+        room_status_unavailable: 'L\'état de la salle est indisponible pour le moment',
+        room_status_update_required: 'Cette salle nécessite la dernière version de Whiteboard. Mettez à jour l\'application avant de la rejoindre.',
+        room_status_file: 'Fichier : {{fileName}}',
         section_download: 'Téléchargements',
         download_ios_label: 'iOS / macOS',
         download_google_label: 'Google Play',
@@ -351,6 +415,14 @@ i18n.init({
         copy_button: 'Copia',
         copy_success: 'Copiato',
         copy_failed: 'Copia non riuscita',
+        room_status_checking: 'Verifica dello stato della stanza…',
+        room_status_live: 'In diretta · {{count}} online',
+        room_status_waiting: 'La stanza è aperta, in attesa che i partecipanti si riconnettano',
+        room_status_closed: 'Questa stanza è stata chiusa dall\'host',
+        room_status_not_found: 'Stanza non trovata o scaduta',
+        room_status_unavailable: 'Lo stato della stanza non è disponibile al momento',
+        room_status_update_required: 'Questa stanza richiede l\'ultima versione di Whiteboard. Aggiorna l\'app prima di entrare.',
+        room_status_file: 'File: {{fileName}}',
         section_download: 'Download',
         download_ios_label: 'iOS / macOS',
         download_google_label: 'Google Play',
@@ -393,6 +465,14 @@ i18n.init({
         copy_button: 'Копировать',
         copy_success: 'Скопировано',
         copy_failed: 'Ошибка копирования',
+        room_status_checking: 'Проверка состояния комнаты…',
+        room_status_live: 'Идёт работа · {{count}} в сети',
+        room_status_waiting: 'Комната открыта, ожидаем повторного подключения участников',
+        room_status_closed: 'Эта комната закрыта ведущим',
+        room_status_not_found: 'Комната не найдена или устарела',
+        room_status_unavailable: 'Состояние комнаты сейчас недоступно',
+        room_status_update_required: 'Для этой комнаты нужна последняя версия Whiteboard. Обновите приложение перед подключением.',
+        room_status_file: 'Файл: {{fileName}}',
         section_download: 'Загрузка',
         download_ios_label: 'iOS / macOS',
         download_google_label: 'Google Play',
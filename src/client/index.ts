@@ -1,9 +1,15 @@
 import './i18n';
 import i18n from './i18n';
+import { ErrorType, type RoomStatus } from '../shared';
 
 const INVITE_PARAM_KEYS = ['invite', 'inviteCode', 'code', 'roomCode'];
 const BRAND_SITE_NAME = 'endlessAI Whiteboard';
 const SHARE_IMAGE_PATH = '/logo.png';
+// 旧版客户端使用的协同协议版本，房间要求更高版本时提示更新应用
+const LEGACY_COLLAB_PROTOCOL_VERSION = 1;
+
+// 同一邀请码只查询一次，切换语言重新渲染时复用结果
+let roomStatusRequest: { inviteCode: string; promise: Promise<RoomStatus | null> } | null = null;
 
 function normalizeInviteCode(raw: string | null): string | null {
   if (!raw) return null;
@@ -46,8 +52,77 @@ async function copyToClipboard(text: string): Promise<void> {
   document.body.removeChild(textArea);
 }
 
-function t(key: string): string {
-  return String(i18n.t(key));
+function t(key: string, options?: Record<string, unknown>): string {
+  return String(i18n.t(key, options));
+}
+
+async function fetchRoomStatus(inviteCode: string): Promise<RoomStatus> {
+  const response = await fetch(`/api/rooms/${encodeURIComponent(inviteCode)}/status`, {
+    headers: { Accept: 'application/json' },
+  });
+  // 邀请码未知、过期或已撤销时按房间不存在处理；主持人关房后邀请码返回 room_is_closed
+  if (response.status === 404 || response.status === 410) {
+    const closed = response.status === 410 && (await response.text()) === ErrorType.ROOM_IS_CLOSED;
+    return {
+      exists: false,
+      closed,
+      participants: 0,
+      pendingCleanupAt: null,
+      roomMinProtocolVersion: null,
+      fileName: null,
+    };
+  }
+  if (!response.ok) {
+    throw new Error(`room_status_http_${response.status}`);
+  }
+  return (await response.json()) as RoomStatus;
+}
+
+function getRoomStatus(inviteCode: string): Promise<RoomStatus | null> {
+  if (!roomStatusRequest || roomStatusRequest.inviteCode !== inviteCode) {
+    roomStatusRequest = {
+      inviteCode,
+      promise: fetchRoomStatus(inviteCode).catch((error) => {
+        console.error('failed_fetch_room_status', error);
+        roomStatusRequest = null;
+        return null;
+      }),
+    };
+  }
+  return roomStatusRequest.promise;
+}
+
+function renderRoomStatus(container: HTMLElement, status: RoomStatus | null): void {
+  const lines: Array<{ text: string; variant?: 'warning' | 'closed' }> = [];
+
+  if (!status) {
+    lines.push({ text: t('room_status_unavailable'), variant: 'warning' });
+  } else if (status.closed) {
+    lines.push({ text: t('room_status_closed'), variant: 'closed' });
+  } else if (!status.exists) {
+    lines.push({ text: t('room_status_not_found'), variant: 'closed' });
+  } else {
+    lines.push({
+      text: status.participants > 0
+        ? t('room_status_live', { count: status.participants })
+        : t('room_status_waiting'),
+    });
+    if (status.fileName) {
+      lines.push({ text: t('room_status_file', { fileName: status.fileName, interpolation: { escapeValue: false } }) });
+    }
+    if ((status.roomMinProtocolVersion ?? LEGACY_COLLAB_PROTOCOL_VERSION) > LEGACY_COLLAB_PROTOCOL_VERSION) {
+      lines.push({ text: t('room_status_update_required'), variant: 'warning' });
+    }
+  }
+
+  container.replaceChildren(
+    ...lines.map(({ text, variant }) => {
+      const line = document.createElement('p');
+      line.className = variant ? `invite-status invite-status-${variant}` : 'invite-status';
+      line.textContent = text;
+      return line;
+    })
+  );
 }
 
 function setMetaTag(attr: 'name' | 'property', key: string, value: string): void {
@@ -115,6 +190,9 @@ function renderPage() {
           <code id="invite-code-value">${escapeHtml(inviteCode)}</code>
           <button id="copy-invite-button" type="button">${t('copy_button')}</button>
         </div>
+        <div id="invite-status" class="invite-status-list" aria-live="polite">
+          <p class="invite-status">${t('room_status_checking')}</p>
+        </div>
       </section>
     `
     : '';
@@ -220,6 +298,16 @@ function renderPage() {
     </div>
   `;
 
+  const statusContainer = document.getElementById('invite-status');
+  if (statusContainer && inviteCode) {
+    getRoomStatus(inviteCode).then((status) => {
+      // 等待期间页面可能已重新渲染，只更新仍在文档中的节点
+      if (statusContainer.isConnected) {
+        renderRoomStatus(statusContainer, status);
+      }
+    });
+  }
+
   const copyButton = document.getElementById('copy-invite-button') as HTMLButtonElement | null;
   if (copyButton && inviteCode) {
     copyButton.addEventListener('click', async () => {
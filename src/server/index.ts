@@ -1,17 +1,54 @@
-import { DurableObjectState } from 'cloudflare:workers';
-import { ChatMessage, UserSession, MessageType, UserRole, RealTimeCommand, PrefixType, ErrorType } from '../shared';
+import { customAlphabet } from 'nanoid';
+import {
+    ChatMessage,
+    ChatHistoryPage,
+    RoomOperation,
+    ObjectLock,
+    PresenceState,
+    PresenterView,
+    UserSession,
+    MessageType,
+    UserRole,
+    RealTimeCommand,
+    PrefixType,
+    ErrorType,
+    RoomTokens,
+    InviteCode,
+    COMMAND_PERMISSIONS,
+    hasCommandPermission,
+    isUserRole,
+    parseClientMessage,
+    readRequestCorrelation,
+    ClientMessageOf,
+    RequestCorrelation,
+    AckContent,
+    BatchOperation,
+    DrawingUpdateContent,
+    CheckpointInfo,
+    BoardBundle,
+    BoardBundleRecord,
+    BOARD_BUNDLE_FORMAT,
+    BOARD_BUNDLE_VERSION,
+    ImportMode,
+    ImportBoardResult,
+    RoomStatus,
+    IMPORT_MODES,
+    parseBoardBundle,
+    PresencePoint,
+    WireEncoding,
+    encodeWireMessage,
+    decodeWireMessage
+} from '../shared';
 
 // 定义环境变量接口
 interface Env {
     ASSETS: any; // 公开访问的静态文件
     WhiteboardRealTime: DurableObjectNamespace; // 白板实时持久化对象命名空间
-}
-
-// WebSocket 消息类型接口
-interface WebSocketMessage {
-    type: string; // 消息类型
-    content?: any; // 消息内容（可选）
-    broadcast?: boolean;
+    InviteRegistry: DurableObjectNamespace; // 邀请码登记持久化对象命名空间
+    INVITE_CODE_TTL_MS?: string; // 邀请码闲置多久后过期（毫秒）
+    ROOM_TOKEN_SECRET?: string; // 房间令牌 HMAC 密钥（wrangler secret）
+    HOST_RECONNECT_GRACE_MS?: string; // 主持人断线后等待重连的时长（毫秒）
+    CHAT_HISTORY_LIMIT?: string; // 聊天记录保留条数
 }
 
 // 定义移动层元数据接口
@@ -19,49 +56,461 @@ interface Metadata {
     id: string;
     model: string;     // 移动层基本信息
     timestamp: number; // 用于追踪更新时间
+    seq?: number;      // 最近一次写入时的房间序号
+    action?: string;   // 绘画记录对应的动作，撤销/重做时据此还原
+    version?: number;  // 对象版本，每次写入递增，用于检测并发冲突
+}
+
+// drawing_ 键的存储形式：model 较大时 deflate 压缩存入 compressedModel，
+// 压缩后仍超过单值上限则拆分到 drawingpart_ 分片，modelParts 为分片数
+interface StoredDrawing extends Omit<Metadata, 'model'> {
+    model?: string;
+    compressedModel?: Uint8Array;
+    modelParts?: number;
+}
+
+// 操作日志中的条目：model 不重复存储，modelRef 指明补发时从哪里读取当前 model
+interface StoredOperation extends RoomOperation {
+    modelRef?: PrefixType.drawing | PrefixType.moveView | typeof BACKGROUND_STORAGE_KEY;
+}
+
+// 绘画 model 编码后的存储字段与分片，写入前先算好，不占用读取与写入之间的时间
+interface EncodedModel {
+    fields: Pick<StoredDrawing, 'model' | 'compressedModel' | 'modelParts'>;
+    parts: Uint8Array[];
+}
+
+// 撤销/重做记录：当前存储值仍为 expected 时才写回 target（null 表示删除）；
+// expected 只保留校验用的 seq 与 timestamp，绘画记录的 target 保持压缩形式，撤销时再解压
+interface HistoryEntry {
+    prefix: PrefixType.drawing | PrefixType.moveView;
+    id: string;
+    expected: HistoryStamp | null;
+    target: Metadata | StoredDrawing | null;
+}
+
+type HistoryStamp = Pick<Metadata, 'seq' | 'timestamp'>;
+
+interface UserHistory {
+    undo: HistoryEntry[];
+    redo: HistoryEntry[];
+}
+
+// 连接附件：用户会话加上该连接协商的传输编码与所出示令牌的角色；二者按连接区分，不进入用户列表
+interface ConnectionAttachment extends UserSession {
+    wireEncoding?: WireEncoding;
+    tokenRole?: UserRole;
+}
+
+// 命令处理结果：null 表示已回复 error/conflict 或命令没有产生效果，不回复 ack；seq 为本次命令写入操作日志的序号
+type CommandResult = { seq?: number } | null;
+const COMMAND_APPLIED: CommandResult = {};
+
+// 房间序号状态：syncId 标识一次房间会话，房间清理后重新生成，避免旧序号误匹配
+interface RoomSequence {
+    syncId: string;
+    seq: number;
+}
+
+// 持久化的房间元数据，对象被驱逐后据此恢复房间状态
+interface RoomMeta {
+    fileName: string | null;
+    roomMinProtocolVersion: number | null;
+    isRoomClosed: boolean;
+    pendingCleanupAt: number | null;
+    pendingHostHandoverAt: number | null;
+    presenterView?: PresenterView | null;
+    inviteCode?: InviteCode | null;
 }
 
 const LEGACY_COLLAB_PROTOCOL_VERSION = 1;
+const CHUNKED_SNAPSHOT_PROTOCOL_VERSION = 2; // 从该版本起 initSetup 分块下发
+const BINARY_WIRE_PROTOCOL_VERSION = 3; // 从该版本起可协商 MessagePack 二进制帧
+const BATCH_RELAY_PROTOCOL_VERSION = 4; // 从该版本起客户端能处理转发的 batch 帧，更低版本逐条下发
+const TOKEN_EPOCH_STORAGE_KEY = 'room_token_epoch'; // 房间令牌纪元，房间清理后旧令牌随之失效
+const ROLE_TOKEN_EPOCHS_STORAGE_KEY = 'role_token_epochs'; // 单独换发过的各角色令牌纪元，未换发的角色沿用房间纪元
+const ROLE_RANK: Record<UserRole, number> = { [UserRole.VIEWER]: 0, [UserRole.EDITOR]: 1, [UserRole.HOST]: 2 };
+const BANNED_USERS_STORAGE_KEY = 'banned_users'; // 被主持人封禁的用户 id 列表
+const ROLE_OVERRIDES_STORAGE_KEY = 'role_overrides'; // 主持人调整过的成员角色，重连时优先于令牌角色
+const ROOM_META_STORAGE_KEY = 'room_meta'; // 房间元数据
+const ROOM_SEQUENCE_STORAGE_KEY = 'room_seq'; // 房间操作序号
+const STORAGE_FORMAT_STORAGE_KEY = 'storage_format'; // 绘画记录存储格式版本，缺省为 1（未压缩）
+const DRAWING_STORAGE_FORMAT = 2; // 当前格式：大 model 压缩并按需分片
+const MODEL_COMPRESSION_THRESHOLD = 4 * 1024; // model 超过该长度（字符）时压缩
+const MODEL_PART_MAX_BYTES = 96 * 1024; // 单个存储值的压缩数据上限，低于 Durable Object 的 128 KiB 单值限制
+const HISTORY_MAX_BYTES = 96 * 1024; // 单个用户撤销记录的估算存储上限，超出时丢弃最早的记录
+const HISTORY_ENTRY_OVERHEAD_BYTES = 256; // 估算时每条撤销记录除 model 外的固定开销
+const BOARD_STORAGE_PREFIXES = [PrefixType.drawing, PrefixType.drawingPart, PrefixType.moveView]; // 检查点需要复制的画板数据
+const BACKGROUND_STORAGE_KEY = RealTimeCommand.updateBackground; // 背景存储在固定 key 下
+const ROOM_API_PATH = /^\/api\/rooms\/([^/]+)\/([a-z]+)$/; // HTTP 接口：/api/rooms/:room/:action
+const INVITE_CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ'; // 去掉易混淆的 0/O、1/I/L
+const INVITE_CODE_LENGTH = 8;
+const INVITE_RECORD_STORAGE_KEY = 'invite_record'; // 邀请码登记对象中该码的登记记录
+const INVITE_REGISTRY_ORIGIN = 'https://invite-registry'; // Worker 内部调用登记对象时使用的 URL 前缀
 
 // Chat类定义
 export class Chat {
 
     private static readonly EMPTY_ROOM_CLEANUP_DELAY_MS = 3 * 60 * 1000; // 空房间延迟清理，避免短暂后台切换导致清库
+    private static readonly DEFAULT_HOST_RECONNECT_GRACE_MS = 60 * 1000; // 主持人断线后默认等待重连的时长
+    private static readonly DEFAULT_CHAT_HISTORY_LIMIT = 500; // 默认保留的聊天记录条数
+    private static readonly INIT_SETUP_CHAT_MESSAGES = 50; // initSetup 中附带的最近聊天条数
+    private static readonly CHAT_HISTORY_PAGE_SIZE = 50; // chatHistory 默认每页条数
+    private static readonly CHAT_HISTORY_MAX_PAGE_SIZE = 200; // chatHistory 单页上限
+    private static readonly OPERATION_LOG_LIMIT = 500; // 操作日志保留条数，超出后重连需要全量同步
+    private static readonly SNAPSHOT_CHUNK_MAX_BYTES = 256 * 1024; // 分块快照单帧字节上限，远低于 WebSocket 消息上限
+    private static readonly SNAPSHOT_LIST_PAGE_SIZE = 256; // 分块快照每次从存储读取的记录数
+    private static readonly USER_HISTORY_LIMIT = 50; // 每个用户可撤销的步数
+    private static readonly HISTORY_MERGE_WINDOW_MS = 1000; // 同一对象的连续更新在该间隔内合并为一步撤销（拖动）
+    private static readonly OBJECT_LOCK_LEASE_MS = 10 * 1000; // 移动层锁租期，持有者需在到期前续约
+    private static readonly BATCH_OPERATIONS_PER_RATE_UNIT = 10; // 批量命令每多少个操作计一次绘图限流
+    private static readonly MAX_INVITE_CODE_ATTEMPTS = 5; // 生成邀请码遇到已占用的码时的重试次数
+    private static readonly OUTBOUND_FRAME_MS = 33; // 高频更新的合并窗口（约 30 帧/秒）
+    private static readonly PRESENTER_VIEW_PERSIST_MS = 1000; // 主讲人视口变化的持久化间隔
+    private static readonly OUTBOUND_BUDGET_WINDOW_MS = 1000; // 连接发送量的统计窗口
+    private static readonly OUTBOUND_SOCKET_BUDGET_BYTES = 512 * 1024; // 窗口内单个连接的发送上限，超出视为积压
+    private static readonly MAX_CHECKPOINTS = 20; // 每个房间保留的手动检查点数量，超出后删除最早的
+    private static readonly MAX_AUTOMATIC_CHECKPOINTS = 10; // 自动检查点单独计数，频繁清空不会挤掉手动检查点
+    private static readonly STORAGE_BATCH_SIZE = 128; // storage.put/delete 单次最多 128 个 key
+    private static readonly IMPORT_RECORDS_PER_TRANSACTION = 32; // 导入时每个事务写入的记录数（绘画记录可能再拆出分片）
 
     private isRoomClosed: boolean = false; // 添加房间状态标记
     private fileName: string | null = null; // 存储文件名
     private roomMinProtocolVersion: number | null = null; // 房间最低协同协议版本（由发起者决定）
     private users: Map<string, UserSession> = new Map(); // 用户列表
     private messages: ChatMessage[] = []; // 聊天记录
-    private connections: Set<WebSocket> = new Set(); // 连接集合
-    private connectionToUser: Map<WebSocket, string> = new Map(); // WebSocket 到用户的映射
+    private sequence: RoomSequence = Chat.createRoomSequence(); // 房间操作序号
+    private histories: Map<string, UserHistory> = new Map(); // 每个用户的撤销/重做记录，按需从 history_ 键加载，对象驱逐后仍可撤销
+    private objectLocks: Map<string, ObjectLock> = new Map(); // 移动层 id 到锁的映射（仅内存）
+    private presences: Map<string, PresenceState> = new Map(); // 用户在场信息（仅内存）
+    private presenterView: PresenterView | null = null; // 跟随模式下的主讲人视口，null 表示未开启
+    private outboundQueues: Map<WebSocket, Map<string, OutboundMessage>> = new Map(); // 每个连接待合并发送的更新，按对象 key 去重
+    private outboundUsage: Map<WebSocket, { bytes: number, windowStart: number }> = new Map(); // 每个连接近期的发送量
+    private outboundFlushTimer: ReturnType<typeof setTimeout> | null = null;
+    private presenterViewPersistTimer: ReturnType<typeof setTimeout> | null = null;
 
     private messageLimiter = new RateLimiter(10, 5000); // 5秒内最多10条消息
     private drawingLimiter = new RateLimiter(100, 5000); // 5秒内最多100次绘图操作
     private pendingCleanupAt: number | null = null;
+    private pendingHostHandoverAt: number | null = null; // 主持人断线后计划移交主持人的时间
+    private tokenSigner: RoomTokenSigner | null = null;
+    private bannedUserIds: Set<string> | null = null; // 封禁列表，首次使用时从存储加载
+    private roleOverrides: Map<string, UserRole> | null = null; // 角色调整记录，首次使用时从存储加载
+    private inviteCode: InviteCode | null = null; // 当前有效的邀请码
 
 
     constructor(private state: DurableObjectState, private env: Env) {
-        // 构造函数，用于初始化持久化状态
+        // 休眠唤醒后，从 WebSocket 附件恢复在线用户
+        for (const ws of this.state.getWebSockets()) {
+            const userSession = this.getConnectionSession(ws);
+            if (userSession) {
+                this.users.set(userSession.userId, userSession);
+            }
+        }
+
+        // 恢复持久化的房间元数据与聊天记录，完成前不处理任何事件
+        this.state.blockConcurrencyWhile(async () => {
+            await this.restoreRoomState();
+            await this.migrateDrawingStorage();
+        });
+    }
+
+    private async restoreRoomState() {
+        const meta = await this.state.storage.get<RoomMeta>(ROOM_META_STORAGE_KEY);
+        if (meta) {
+            this.fileName = meta.fileName;
+            this.roomMinProtocolVersion = meta.roomMinProtocolVersion;
+            this.isRoomClosed = meta.isRoomClosed;
+            this.pendingCleanupAt = meta.pendingCleanupAt;
+            this.pendingHostHandoverAt = meta.pendingHostHandoverAt;
+            this.presenterView = meta.presenterView ?? null;
+            this.inviteCode = meta.inviteCode ?? null;
+        }
+
+        const storedMessages = await this.state.storage.list<ChatMessage>({
+            prefix: PrefixType.chat,
+            reverse: true,
+            limit: this.getChatHistoryLimit()
+        });
+        this.messages = Array.from(storedMessages.values()).reverse();
+
+        const sequence = await this.state.storage.get<RoomSequence>(ROOM_SEQUENCE_STORAGE_KEY);
+        this.sequence = sequence ?? Chat.createRoomSequence();
+    }
+
+    private static createRoomSequence(): RoomSequence {
+        return { syncId: crypto.randomUUID(), seq: 0 };
+    }
+
+    private operationStorageKey(seq: number): string {
+        return `${PrefixType.operation}${String(seq).padStart(12, '0')}`;
+    }
+
+    // 分配新的房间序号并写入操作日志，超出保留条数时删除最早的日志
+    private recordOperation(type: RealTimeCommand, content?: any, version?: number): number {
+        const seq = this.sequence.seq + 1;
+        this.sequence = { ...this.sequence, seq };
+
+        const operation: StoredOperation = { seq, type, content, version };
+        // 笔迹和背景可能很大，日志只记引用，避免超出单值上限并重复占用存储
+        const modelRef = Chat.operationModelRef(type, content);
+        if (modelRef) {
+            operation.modelRef = modelRef;
+            operation.content = modelRef === BACKGROUND_STORAGE_KEY ? undefined : { ...content, model: undefined };
+        }
+        const writes: Promise<unknown>[] = [this.state.storage.put<unknown>({
+            [ROOM_SEQUENCE_STORAGE_KEY]: this.sequence,
+            [this.operationStorageKey(seq)]: operation,
+        })];
+
+        const expiredSeq = seq - Chat.OPERATION_LOG_LIMIT;
+        if (expiredSeq > 0) {
+            writes.push(this.state.storage.delete(this.operationStorageKey(expiredSeq)));
+        }
+
+        Promise.all(writes).catch((error: unknown) => {
+            console.error('failed_record_operation', error);
+        });
+        return seq;
+    }
+
+    // 取 lastSeq 之后缺失的操作；会话不一致或日志已被截断时返回 null，需全量同步
+    private async getOperationsSince(syncId: unknown, lastSeq: unknown): Promise<RoomOperation[] | null> {
+        if (syncId !== this.sequence.syncId) return null;
+        if (typeof lastSeq !== 'number' || !Number.isInteger(lastSeq) || lastSeq < 0) return null;
+
+        const currentSeq = this.sequence.seq;
+        if (lastSeq > currentSeq || lastSeq < currentSeq - Chat.OPERATION_LOG_LIMIT) return null;
+        if (lastSeq === currentSeq) return [];
+
+        const operations = await this.state.storage.list<StoredOperation>({
+            start: this.operationStorageKey(lastSeq + 1),
+            end: this.operationStorageKey(currentSeq + 1)
+        });
+        if (operations.size !== currentSeq - lastSeq) return null;
+
+        return this.hydrateOperations(Array.from(operations.values()));
+    }
+
+    private static operationModelRef(type: RealTimeCommand, content: any): StoredOperation['modelRef'] {
+        if (type === RealTimeCommand.updateBackground) return BACKGROUND_STORAGE_KEY;
+        if (typeof content?.model !== 'string') return undefined;
+        if (type === RealTimeCommand.drawingUpdate) return PrefixType.drawing;
+        if (type === RealTimeCommand.updateMoveView) return PrefixType.moveView;
+        return undefined;
+    }
+
+    // 从当前存储补回日志中省略的 model。记录已被删除或尚未写到该版本时返回 null，改为全量同步；
+    // 记录已被后续操作更新时取最新 model，后续操作同样在补发范围内，客户端最终状态一致
+    private async hydrateOperations(operations: StoredOperation[]): Promise<RoomOperation[] | null> {
+        const records = new Map<string, Metadata | null>();
+        const result: RoomOperation[] = [];
+
+        for (const { modelRef, ...operation } of operations) {
+            if (!modelRef) {
+                result.push(operation);
+                continue;
+            }
+
+            if (modelRef === BACKGROUND_STORAGE_KEY) {
+                const background = await this.state.storage.get(BACKGROUND_STORAGE_KEY);
+                if (background === undefined) return null;
+                result.push({ ...operation, content: background });
+                continue;
+            }
+
+            const key = `${modelRef}${operation.content.id}`;
+            if (!records.has(key)) {
+                records.set(key, await this.loadBoardRecord(modelRef, operation.content.id));
+            }
+            const record = records.get(key);
+            if (!record || (record.version ?? 0) < (operation.version ?? 0)) return null;
+            result.push({ ...operation, content: { ...operation.content, model: record.model } });
+        }
+        return result;
+    }
+
+    private persistRoomMeta() {
+        const meta: RoomMeta = {
+            fileName: this.fileName,
+            roomMinProtocolVersion: this.roomMinProtocolVersion,
+            isRoomClosed: this.isRoomClosed,
+            pendingCleanupAt: this.pendingCleanupAt,
+            pendingHostHandoverAt: this.pendingHostHandoverAt,
+            presenterView: this.presenterView,
+            inviteCode: this.inviteCode,
+        };
+        this.state.storage.put(ROOM_META_STORAGE_KEY, meta)
+            .catch((error: unknown) => {
+                console.error('failed_persist_room_meta', error);
+            });
+    }
 
+    private getChatHistoryLimit(): number {
+        const configured = Number(this.env.CHAT_HISTORY_LIMIT);
+        return Number.isInteger(configured) && configured > 0
+            ? configured
+            : Chat.DEFAULT_CHAT_HISTORY_LIMIT;
+    }
+
+    // 聊天记录按时间排序的存储 key
+    private chatStorageKey(message: ChatMessage): string {
+        return `${PrefixType.chat}${String(message.timestamp).padStart(15, '0')}_${message.id}`;
+    }
+
+    // 追加聊天记录并持久化，超出保留条数时删除最早的记录
+    private appendChatMessage(message: ChatMessage) {
+        this.messages.push(message);
+        const writes: Promise<unknown>[] = [this.state.storage.put(this.chatStorageKey(message), message)];
+
+        const overflow = this.messages.length - this.getChatHistoryLimit();
+        if (overflow > 0) {
+            const trimmed = this.messages.splice(0, overflow);
+            writes.push(this.state.storage.delete(trimmed.map((item) => this.chatStorageKey(item))));
+        }
+
+        Promise.all(writes).catch((error: unknown) => {
+            console.error('failed_persist_chat_message', error);
+        });
+    }
+
+    // WebSocket 附件保存该连接的用户会话，对象被驱逐后仍可恢复
+    private getConnectionSession(webSocket: WebSocket): UserSession | null {
+        const attachment = (webSocket.deserializeAttachment() as ConnectionAttachment | null) ?? null;
+        if (!attachment) return null;
+        const { wireEncoding, tokenRole, ...userSession } = attachment;
+        return userSession;
+    }
+
+    private getConnectionEncoding(webSocket: WebSocket): WireEncoding {
+        return (webSocket.deserializeAttachment() as ConnectionAttachment | null)?.wireEncoding ?? WireEncoding.json;
+    }
+
+    private getConnectionUserId(webSocket: WebSocket): string | undefined {
+        return this.getConnectionSession(webSocket)?.userId;
+    }
 
+    // 更新用户会话，并同步写回该用户所有连接的附件
+    private saveUserSession(userSession: UserSession) {
+        this.users.set(userSession.userId, userSession);
+        for (const ws of this.getUserSockets(userSession.userId)) {
+            const previous = ws.deserializeAttachment() as ConnectionAttachment | null;
+            const attachment: ConnectionAttachment = { ...userSession, wireEncoding: previous?.wireEncoding, tokenRole: previous?.tokenRole };
+            ws.serializeAttachment(attachment);
+        }
+    }
 
+    // 用户各连接出示的令牌中最高的角色；旧连接未记录时返回 undefined
+    private getUserTokenRole(userId: string): UserRole | undefined {
+        let tokenRole: UserRole | undefined;
+        for (const ws of this.getUserSockets(userId)) {
+            const role = (ws.deserializeAttachment() as ConnectionAttachment | null)?.tokenRole;
+            if (role && (!tokenRole || ROLE_RANK[role] > ROLE_RANK[tokenRole])) {
+                tokenRole = role;
+            }
+        }
+        return tokenRole;
+    }
 
+    // 每个 Durable Object 只有一个闹钟：按最早的待处理时间重新设定，没有待处理任务则删除
+    private syncAlarm() {
+        const deadlines = [this.pendingCleanupAt, this.pendingHostHandoverAt]
+            .filter((deadline): deadline is number => deadline !== null);
+        const request = deadlines.length > 0
+            ? this.state.storage.setAlarm(Math.min(...deadlines))
+            : this.state.storage.deleteAlarm();
+        request.catch((error: unknown) => {
+            console.error('failed_sync_alarm', error);
+        });
+        this.persistRoomMeta();
     }
 
     private cancelPendingCleanup() {
         if (this.pendingCleanupAt === null) return;
         this.pendingCleanupAt = null;
-        this.state.storage.deleteAlarm()
-            .catch((error) => {
-                console.error('failed_cancel_cleanup_alarm', error);
-            });
+        this.syncAlarm();
+    }
+
+    private getHostReconnectGraceMs(): number {
+        const configured = Number(this.env.HOST_RECONNECT_GRACE_MS);
+        return Number.isFinite(configured) && configured >= 0
+            ? configured
+            : Chat.DEFAULT_HOST_RECONNECT_GRACE_MS;
+    }
+
+    private scheduleHostHandover() {
+        if (this.pendingHostHandoverAt !== null) return;
+        this.pendingHostHandoverAt = Date.now() + this.getHostReconnectGraceMs();
+        this.syncAlarm();
+        console.log('scheduled_host_handover');
+    }
+
+    private cancelHostHandover() {
+        if (this.pendingHostHandoverAt === null) return;
+        this.pendingHostHandoverAt = null;
+        this.syncAlarm();
+        console.log('cancelled_host_handover');
+    }
+
+    private findOnlineHost(): UserSession | undefined {
+        for (const user of this.users.values()) {
+            if (user.role === UserRole.HOST) return user;
+        }
+        return undefined;
+    }
+
+    private getUserSockets(userId: string): WebSocket[] {
+        return this.state.getWebSockets().filter((ws) => this.getConnectionUserId(ws) === userId);
+    }
+
+    // 主持人重连超时：提升最早加入的编辑者为新主持人
+    private async promoteLongestConnectedEditor() {
+        if (this.findOnlineHost()) return;
+
+        let candidate: UserSession | undefined;
+        for (const user of this.users.values()) {
+            if (user.role !== UserRole.EDITOR) continue;
+            if (!candidate || (user.joinedAt ?? 0) < (candidate.joinedAt ?? 0)) {
+                candidate = user;
+            }
+        }
+
+        if (!candidate) {
+            console.log('host_handover_no_editor_candidate');
+            return;
+        }
+
+        await this.assignHost(candidate, 'promoted_to_host');
+    }
+
+    // 授予主持人身份，并把主持人令牌发给新主持人以便其断线后重连
+    private async assignHost(target: UserSession, reason: string) {
+        // 主讲人不再是主持人，结束跟随模式
+        this.stopFollowMode();
+
+        target.role = UserRole.HOST;
+        target.following = undefined;
+        this.saveUserSession(target);
+        await this.setRoleOverride(target.userId, null);
+
+        const epochs = await this.loadTokenEpochs();
+        if (epochs) {
+            const tokens = await this.signRoomTokens(epochs);
+            for (const ws of this.getUserSockets(target.userId)) {
+                this.sendRoomTokens(ws, tokens);
+                this.sendInviteCode(ws);
+            }
+        }
+
+        this.sendSystemMessage(`${target.userName}XXX${reason}`);
+        this.broadcastUserList();
     }
 
     private scheduleEmptyRoomCleanup() {
         if (this.pendingCleanupAt !== null) return;
         const cleanupAt = Date.now() + Chat.EMPTY_ROOM_CLEANUP_DELAY_MS;
         this.pendingCleanupAt = cleanupAt;
+        this.persistRoomMeta();
         this.state.storage.setAlarm(cleanupAt)
             .then(() => {
                 console.log('scheduled_empty_room_cleanup');
@@ -74,13 +523,32 @@ export class Chat {
 
     private async clearRoomData(reason: string) {
         this.pendingCleanupAt = null;
-        this.connections.clear();
+        this.pendingHostHandoverAt = null;
         this.users.clear();
-        this.connectionToUser.clear();
         this.messages = [];
+        this.sequence = Chat.createRoomSequence();
+        this.histories.clear();
+        this.objectLocks.clear();
+        this.presences.clear();
+        this.presenterView = null;
+        this.cancelPresenterViewPersist();
         this.roomMinProtocolVersion = null;
         this.fileName = null;
         this.isRoomClosed = false;
+        this.bannedUserIds = null;
+        this.roleOverrides = null;
+
+        // 房间数据清空后邀请码不再指向有效房间，撤销失败只记录日志，等待其自然过期；
+        // 主持人关房时登记为已关闭，落地页据此显示关闭提示
+        if (this.inviteCode) {
+            const { code } = this.inviteCode;
+            this.inviteCode = null;
+            try {
+                await this.revokeInviteCode(code, reason === 'host_closed_room' ? 'close' : 'revoke');
+            } catch (error) {
+                console.error('failed_revoke_invite_code', error);
+            }
+        }
 
         await this.state.storage.deleteAll();
         await this.state.storage.deleteAlarm();
@@ -88,9 +556,26 @@ export class Chat {
     }
 
     async alarm() {
+        const now = Date.now();
+        if (this.pendingHostHandoverAt !== null && this.pendingHostHandoverAt <= now) {
+            this.pendingHostHandoverAt = null;
+            try {
+                await this.promoteLongestConnectedEditor();
+            } catch (error) {
+                console.error('failed_host_handover_on_alarm', error);
+            }
+        }
+
+        // 闹钟由其它待处理任务触发，空房间清理尚未到期
+        if (this.pendingCleanupAt !== null && this.pendingCleanupAt > now) {
+            this.syncAlarm();
+            return;
+        }
+
         this.pendingCleanupAt = null;
-        if (this.connections.size > 0) {
+        if (this.state.getWebSockets().length > 0) {
             console.log('skip_cleanup_alarm_active_connections');
+            this.syncAlarm();
             return;
         }
 
@@ -101,83 +586,317 @@ export class Chat {
         }
     }
 
-    // 处理新连接的 WebSocket
-    private handleWebSocket(webSocket: WebSocket) {
-        this.connections.add(webSocket);
-        webSocket.addEventListener('message', (event) => this.onMessage(webSocket, event.data));
-        webSocket.addEventListener('close', () => this.onClose(webSocket));
+    // 休眠 API 回调：收到消息
+    async webSocketMessage(webSocket: WebSocket, message: string | ArrayBuffer) {
+        await this.onMessage(webSocket, message);
+    }
+
+    // 休眠 API 回调：客户端关闭连接
+    async webSocketClose(webSocket: WebSocket, code: number, reason: string) {
+        this.onClose(webSocket);
+        try {
+            webSocket.close(code, reason);
+        } catch {
+            // 连接已关闭或关闭码不可回传，忽略
+        }
+    }
+
+    // 休眠 API 回调：连接异常
+    async webSocketError(webSocket: WebSocket, error: unknown) {
+        console.error('websocket_error', error);
+        this.onClose(webSocket);
     }
 
     // 处理 WebSocket 关闭事件
     private onClose(webSocket: WebSocket) {
-        const userId = this.connectionToUser.get(webSocket);
-        if (userId) {
+        const userId = this.getConnectionUserId(webSocket);
+        // 清空附件，避免 error/close 回调重复处理同一连接
+        webSocket.serializeAttachment(null);
+        this.outboundQueues.delete(webSocket);
+        this.outboundUsage.delete(webSocket);
+        const remainingConnections = this.state.getWebSockets().filter((ws) => ws !== webSocket);
+
+        // 同一用户已有新连接（移动端快速重连）时不移出在线列表
+        const hasOtherConnection = remainingConnections.some((ws) => this.getConnectionUserId(ws) === userId);
+        if (userId && !hasOtherConnection) {
             const user = this.users.get(userId);
             if (user) {
                 this.users.delete(userId);
+                this.releaseUserLocks(userId);
+                this.clearPresence(userId);
                 this.sendSystemMessage(`${user.userName}XXXleft_room`);
                 this.broadcastUserList(); // 广播用户列表
+
+                // 主持人离开且无其他主持人：等待宽限期，超时后自动移交
+                if (user.role === UserRole.HOST && this.users.size > 0 && !this.findOnlineHost()) {
+                    this.scheduleHostHandover();
+                }
             }
-            this.connectionToUser.delete(webSocket);
         }
-        this.connections.delete(webSocket);
 
         // 检查是否没有连接用户：延迟清理，给移动端切后台留缓冲时间
-        if (this.connections.size === 0) {
+        if (remainingConnections.length === 0) {
+            this.pendingHostHandoverAt = null;
+            this.persistRoomMeta();
             this.scheduleEmptyRoomCleanup();
             console.log('scheduled_cleanup_on_last_disconnect');
         }
     }
 
     // 处理 WebSocket 收到的消息
-    private async onMessage(webSocket: WebSocket, messageData: string) {
+    private async onMessage(webSocket: WebSocket, messageData: string | ArrayBuffer) {
+        let raw: unknown;
         try {
-            const data = JSON.parse(messageData) as WebSocketMessage;
-            if (!data.type) {
-                throw new Error('missing_message_type');
-            }
+            raw = decodeWireMessage(messageData);
+        } catch {
+            this.sendError(webSocket, typeof messageData === 'string' ? ErrorType.INVALID_JSON : ErrorType.INVALID_ENCODING);
+            return;
+        }
+
+        // 带 requestId 的请求在处理结束后回复 ack，处理中发出的 error 会带上同一 requestId；
+        // 关联信息随调用传递，同一连接的请求在 await 期间交错也不会串号
+        const correlation = readRequestCorrelation(raw);
+        const result = await this.handleMessage(webSocket, raw, correlation);
+        if (correlation && result) {
+            this.sendAck(webSocket, correlation, { seq: result.seq, timestamp: Date.now() });
+        }
+    }
+
+    private async handleMessage(webSocket: WebSocket, raw: unknown, correlation: RequestCorrelation | undefined): Promise<CommandResult> {
+        // 每一帧都先按协议结构校验，失败时返回具体的错误码
+        const parsed = parseClientMessage(raw);
+        if (!parsed.ok) {
+            console.warn(`invalid_client_message:${parsed.error}`);
+            this.sendError(webSocket, parsed.error, correlation);
+            return null;
+        }
+        const data = parsed.value;
 
+        try {
+            if (!this.authorizeCommand(webSocket, data.type, correlation)) {
+                return null;
+            }
 
             switch (data.type) {
             case RealTimeCommand.create: //创建房间
-                await this.handleCreate(webSocket, data);
-                break;
+                return await this.handleCreate(webSocket, data, correlation);
             case RealTimeCommand.join: //加入房间
-                await this.handleJoin(webSocket, data);
-                break;
+                return await this.handleJoin(webSocket, data, correlation);
             case RealTimeCommand.chat: //处理聊天消息
-                this.handleChat(webSocket, data);
-                break;
+                return this.handleChat(webSocket, data, correlation);
+            case RealTimeCommand.chatHistory: // 分页拉取更早的聊天记录
+                return this.handleChatHistory(webSocket, data, correlation);
             case RealTimeCommand.updateBackground:
-                this.handleUpdateBackground(webSocket, data);
-                break;
+                return this.handleUpdateBackground(webSocket, data, correlation);
 
             case RealTimeCommand.updateMoveView: // 处理移动层更新
-                this.handleUpdateMoveView(webSocket, data);
-                break;
+                return await this.handleUpdateMoveView(webSocket, data, correlation);
             case RealTimeCommand.deleteMoveView: // 处理移动层更新
-                this.handleDeleteMoveView(webSocket, data);
-                break;
+                return await this.handleDeleteMoveView(webSocket, data, correlation);
             case RealTimeCommand.userUpdate: // 修改名字
-                this.handleUserUpdate(webSocket, data);
-                break;
+                return this.handleUserUpdate(webSocket, data, correlation);
+            case RealTimeCommand.undo: // 撤销自己的上一步操作
+                return await this.handleHistoryStep(webSocket, 'undo', correlation);
+            case RealTimeCommand.redo: // 重做自己撤销的操作
+                return await this.handleHistoryStep(webSocket, 'redo', correlation);
+            case RealTimeCommand.lockObject: // 锁定移动层
+                return this.handleLockObject(webSocket, data, correlation);
+            case RealTimeCommand.unlockObject: // 释放移动层锁
+                return this.handleUnlockObject(webSocket, data, correlation);
+            case RealTimeCommand.presence: // 光标/视口/激光笔等实时在场信息
+                return this.handlePresence(webSocket, data);
+            case RealTimeCommand.followMode: // 主持人开启/关闭跟随模式
+                return this.handleFollowMode(webSocket, data);
+            case RealTimeCommand.setFollowing: // 成员切换跟随/自由浏览
+                return this.handleSetFollowing(webSocket, data);
             case RealTimeCommand.clear: //清空绘图数据
-                this.handleClear(webSocket);
-                break;
+                return this.handleClear();
             case RealTimeCommand.drawingUpdate:
-
-                await this.handleDrawingUpdate(webSocket, data);
-                break;
+                return await this.handleDrawingUpdate(webSocket, data, correlation);
+            case RealTimeCommand.batch: // 批量绘画/移动层操作
+                return await this.handleBatch(webSocket, data, correlation);
+            case RealTimeCommand.createCheckpoint: // 主持人保存画板检查点
+                return await this.handleCreateCheckpoint(webSocket, data, correlation);
+            case RealTimeCommand.listCheckpoints: // 主持人查看检查点列表
+                return await this.handleListCheckpoints(webSocket);
+            case RealTimeCommand.restoreCheckpoint: // 主持人恢复检查点
+                return await this.handleRestoreCheckpoint(webSocket, data, correlation);
+            case RealTimeCommand.importBoard: // 主持人导入画板
+                return await this.handleImportBoard(webSocket, data, correlation);
+            case RealTimeCommand.rotateInviteCode: // 主持人撤销当前邀请码并换发新码
+                return await this.handleRotateInviteCode(webSocket, correlation);
             case RealTimeCommand.closeRoom:
-                await this.handleCloseRoom(webSocket, data);
-                break;
-            default:
-                console.warn('unknown_message_type', data.type);
+                return await this.handleCloseRoom(webSocket, data);
+            case RealTimeCommand.setRole: // 主持人调整成员角色
+                return await this.handleSetRole(webSocket, data, correlation);
+            case RealTimeCommand.kickUser: // 主持人移出成员
+                return this.handleKickUser(webSocket, data, correlation);
+            case RealTimeCommand.banUser: // 主持人封禁成员
+                return await this.handleBanUser(webSocket, data, correlation);
+            case RealTimeCommand.transferHost: // 主持人主动移交主持人身份
+                return await this.handleTransferHost(webSocket, data, correlation);
             }
         } catch (error) {
             console.error('error_processing_message', error);
-            this.sendError(webSocket, ErrorType.INVALID_FORMAT);
+            this.sendError(webSocket, ErrorType.INVALID_FORMAT, correlation);
+            return null;
+        }
+    }
+
+    private getTokenSigner(): RoomTokenSigner {
+        if (!this.tokenSigner) {
+            if (!this.env.ROOM_TOKEN_SECRET) {
+                throw new Error('missing_room_token_secret');
+            }
+            this.tokenSigner = new RoomTokenSigner(this.env.ROOM_TOKEN_SECRET);
+        }
+        return this.tokenSigner;
+    }
+
+    // 为新房间生成令牌纪元并签发主持人/编辑者/观看者令牌
+    private async issueRoomTokens(): Promise<RoomTokens> {
+        const epoch = createTokenEpoch();
+        await this.state.storage.put(TOKEN_EPOCH_STORAGE_KEY, epoch);
+        await this.state.storage.delete(ROLE_TOKEN_EPOCHS_STORAGE_KEY);
+        return this.signRoomTokens({ [UserRole.HOST]: epoch, [UserRole.EDITOR]: epoch, [UserRole.VIEWER]: epoch });
+    }
+
+    // 各角色当前的令牌纪元；房间尚未签发令牌时返回 null
+    private async loadTokenEpochs(): Promise<Record<UserRole, string> | null> {
+        const stored = await this.state.storage.get([TOKEN_EPOCH_STORAGE_KEY, ROLE_TOKEN_EPOCHS_STORAGE_KEY]);
+        const epoch = stored.get(TOKEN_EPOCH_STORAGE_KEY) as string | undefined;
+        if (!epoch) return null;
+
+        const rotated = stored.get(ROLE_TOKEN_EPOCHS_STORAGE_KEY) as Partial<Record<UserRole, string>> | undefined;
+        return { [UserRole.HOST]: epoch, [UserRole.EDITOR]: epoch, [UserRole.VIEWER]: epoch, ...rotated };
+    }
+
+    private async signRoomTokens(epochs: Record<UserRole, string>): Promise<RoomTokens> {
+        const signer = this.getTokenSigner();
+        const roomId = this.state.id.toString();
+        const [hostToken, editorToken, viewerToken] = await Promise.all([
+            signer.sign(roomId, epochs[UserRole.HOST], UserRole.HOST),
+            signer.sign(roomId, epochs[UserRole.EDITOR], UserRole.EDITOR),
+            signer.sign(roomId, epochs[UserRole.VIEWER], UserRole.VIEWER),
+        ]);
+        return { hostToken, editorToken, viewerToken };
+    }
+
+    // 封禁或降级成员后换发其令牌角色的纪元：该角色的旧链接全部失效，换了 userId 也无法用旧链接重新进入。
+    // 新令牌发给所有在线主持人，由主持人重新分享；已在房间内的成员不受影响
+    private async rotateRoleToken(role: UserRole) {
+        const epochs = await this.loadTokenEpochs();
+        if (!epochs) return;
+
+        const next = { ...epochs, [role]: createTokenEpoch() };
+        await this.state.storage.put(ROLE_TOKEN_EPOCHS_STORAGE_KEY, next);
+        const tokens = await this.signRoomTokens(next);
+        for (const ws of this.state.getWebSockets()) {
+            if (this.getConnectionSession(ws)?.role === UserRole.HOST) {
+                this.sendRoomTokens(ws, tokens);
+            }
+        }
+        console.log(`rotated_role_token role=${role}`);
+    }
+
+    // 校验客户端出示的令牌，返回令牌对应的角色；无效令牌返回 null
+    private async resolveTokenRole(token: unknown): Promise<UserRole | null> {
+        if (typeof token !== 'string' || token.length === 0) return null;
+
+        const role = token.split('.')[0];
+        if (!isUserRole(role)) return null;
+
+        const epochs = await this.loadTokenEpochs();
+        if (!epochs) return null;
+
+        return this.getTokenSigner().verify(token, this.state.id.toString(), epochs[role]);
+    }
+
+    private sendRoomTokens(webSocket: WebSocket, tokens: RoomTokens) {
+        this.sendMessage(webSocket, {
+            type: RealTimeCommand.roomTokens,
+            content: tokens
+        });
+    }
+
+    private sendInviteCode(webSocket: WebSocket) {
+        if (!this.inviteCode) return;
+        this.sendMessage(webSocket, {
+            type: RealTimeCommand.inviteCode,
+            content: this.inviteCode
+        });
+    }
+
+    // 调用邀请码对应的登记对象：claim 领取新码，extend 顺延本房间的码，revoke 撤销，close 撤销并标记房间已被主持人关闭
+    private callInviteRegistry(code: string, action: 'claim' | 'extend' | 'revoke' | 'close'): Promise<Response> {
+        return getInviteRegistry(this.env, code).fetch(`${INVITE_REGISTRY_ORIGIN}/${action}`, {
+            method: 'POST',
+            body: JSON.stringify({ roomId: this.state.id.toString() })
+        });
+    }
+
+    // 返回本房间当前有效的邀请码并顺延有效期；没有有效邀请码时生成新码
+    private async registerInviteCode(): Promise<InviteCode> {
+        if (this.inviteCode) {
+            const { code } = this.inviteCode;
+            const response = await this.callInviteRegistry(code, 'extend');
+            if (response.ok) {
+                return { code, ...(await response.json<{ expiresAt: number }>()) };
+            }
+            // 404/410 表示原码已失效，换发新码
+            if (response.status !== 404 && response.status !== 410) {
+                throw new Error(`invite_registry_extend_${response.status}`);
+            }
+        }
+
+        for (let attempt = 0; attempt < Chat.MAX_INVITE_CODE_ATTEMPTS; attempt++) {
+            const code = generateInviteCode();
+            const response = await this.callInviteRegistry(code, 'claim');
+            if (response.status === 409) continue;
+            if (!response.ok) {
+                throw new Error(`invite_registry_claim_${response.status}`);
+            }
+            return { code, ...(await response.json<{ expiresAt: number }>()) };
+        }
+        throw new Error('invite_code_space_exhausted');
+    }
+
+    private async revokeInviteCode(code: string, action: 'revoke' | 'close') {
+        const response = await this.callInviteRegistry(code, action);
+        if (!response.ok) {
+            throw new Error(`invite_registry_${action}_${response.status}`);
+        }
+    }
+
+    // 持主持人令牌进入房间：若主持人身份已移交给他人，则以编辑者身份加入；否则取消待处理的移交
+    private resolveHostSeat(userId: string): UserRole {
+        const onlineHost = this.findOnlineHost();
+        if (onlineHost && onlineHost.userId !== userId) {
+            return UserRole.EDITOR;
         }
+
+        this.cancelHostHandover();
+        return UserRole.HOST;
+    }
+
+    // 按权限矩阵校验当前连接能否执行该命令
+    private authorizeCommand(webSocket: WebSocket, command: RealTimeCommand, correlation: RequestCorrelation | undefined): boolean {
+        if (!COMMAND_PERMISSIONS[command]) return true;
+
+        const userId = this.getConnectionUserId(webSocket);
+        const user = userId ? this.users.get(userId) : undefined;
+        if (!user) {
+            this.sendError(webSocket, ErrorType.USER_NOT_JOINED, correlation);
+            return false;
+        }
+
+        if (!hasCommandPermission(command, user.role)) {
+            console.warn(`permission_denied command=${command} role=${user.role}`);
+            this.sendError(webSocket, ErrorType.PERMISSION_DENIED, correlation);
+            return false;
+        }
+
+        return true;
     }
 
     // 注册用户会话
@@ -185,28 +904,35 @@ export class Chat {
         webSocket: WebSocket,
         userId: string,
         userName: string,
-        role: string,
+        role: UserRole,
         protocolVersion: number,
+        wireEncoding: WireEncoding,
+        tokenRole: UserRole,
+        correlation: RequestCorrelation | undefined,
         platform?: string,
         appVersion?: string
     ): UserSession | null {
         if (!userId || !userName) {
-            this.sendError(webSocket, ErrorType.MISSING_USER_INFO);
+            this.sendError(webSocket, ErrorType.MISSING_USER_INFO, correlation);
             return null;
         }
 
         const userSession: UserSession = {
             userId,
             userName,
-            role: role || UserRole.VIEWER,
+            role,
             roomId: this.state.id.toString(),
             protocolVersion,
             platform,
             appVersion,
+            joinedAt: Date.now(),
+            // 跟随模式进行中时，新加入的成员默认跟随主讲人
+            following: this.presenterView && role !== UserRole.HOST ? true : undefined,
         };
 
-        this.users.set(userId, userSession);
-        this.connectionToUser.set(webSocket, userId);
+        const attachment: ConnectionAttachment = { ...userSession, wireEncoding, tokenRole };
+        webSocket.serializeAttachment(attachment);
+        this.saveUserSession(userSession);
 
         return userSession;
     }
@@ -220,19 +946,26 @@ export class Chat {
         return LEGACY_COLLAB_PROTOCOL_VERSION;
     }
 
-    private resolveClientMeta(content: any): { protocolVersion: number; platform?: string; appVersion?: string } {
+    private resolveClientMeta(content: any): { protocolVersion: number; wireEncoding: WireEncoding; platform?: string; appVersion?: string } {
         const protocolVersion = this.resolveClientProtocolVersion(content);
         const platform = typeof content?.platform === 'string' ? content.platform : undefined;
         const appVersion = typeof content?.appVersion === 'string' ? content.appVersion : undefined;
 
-        return { protocolVersion, platform, appVersion };
+        // 协议版本足够且声明支持 MessagePack 时改用二进制帧，否则保持 JSON 文本帧
+        const encodings: unknown = content?.encodings;
+        const wireEncoding = protocolVersion >= BINARY_WIRE_PROTOCOL_VERSION
+            && Array.isArray(encodings) && encodings.includes(WireEncoding.msgpack)
+            ? WireEncoding.msgpack
+            : WireEncoding.json;
+
+        return { protocolVersion, wireEncoding, platform, appVersion };
     }
 
-    private validateJoinProtocolCompatibility(webSocket: WebSocket, joinerVersion: number): boolean {
+    private validateJoinProtocolCompatibility(webSocket: WebSocket, joinerVersion: number, correlation: RequestCorrelation | undefined): boolean {
         const requiredMinVersion = this.roomMinProtocolVersion ?? LEGACY_COLLAB_PROTOCOL_VERSION;
 
         if (joinerVersion < requiredMinVersion) {
-            this.sendError(webSocket, ErrorType.UPGRADE_REQUIRED);
+            this.sendError(webSocket, ErrorType.UPGRADE_REQUIRED, correlation);
             try {
                 webSocket.close(1008, ErrorType.UPGRADE_REQUIRED);
             } catch (error) {
@@ -245,29 +978,21 @@ export class Chat {
     }
 
     // 处理关闭房间的方法
-    private async handleCloseRoom(webSocket: WebSocket, data: WebSocketMessage) {
-        const userId = this.connectionToUser.get(webSocket);
-        if (!userId) return;
-
-        const user = this.users.get(userId);
-        if (!user || user.role !== UserRole.HOST) {
-            this.sendError(webSocket, ErrorType.ONLY_HOST_CAN_DO);
-            return;
-        }
-
+    private async handleCloseRoom(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.closeRoom>): Promise<CommandResult> {
         // 标记房间已关闭
         this.isRoomClosed = true;
+        this.persistRoomMeta();
 
-        const closeMessage = JSON.stringify({
+        const closeMessage = {
             type: RealTimeCommand.closeRoom,
             content: 'room_closed_by_host'
-        });
+        };
         this.broadcast(closeMessage);
 
         await new Promise(resolve => setTimeout(resolve, 1000));
 
         // 断开所有连接
-        for (const ws of this.connections) {
+        for (const ws of this.state.getWebSockets()) {
             try {
                 ws.close(1000, 'room_closed_by_host');
             } catch (error) {
@@ -277,121 +1002,422 @@ export class Chat {
 
         // 主持人主动关房：立即清理
         await this.clearRoomData('host_closed_room');
+        return COMMAND_APPLIED;
     }
 
-    private handleUserUpdate(webSocket: WebSocket, data: WebSocketMessage) {
-        const { userName } = data.content;
-        const userId = this.connectionToUser.get(webSocket);
-
-        if (!userId) {
-            this.sendError(webSocket, ErrorType.USER_NOT_FOUND);
-            return;
+    // 主持人管理命令的目标校验：目标必须在线，且不能是主持人自己或其他主持人
+    private resolveModerationTarget(webSocket: WebSocket, targetUserId: string, correlation: RequestCorrelation | undefined): UserSession | null {
+        const target = this.users.get(targetUserId);
+        if (!target) {
+            this.sendError(webSocket, ErrorType.USER_NOT_FOUND, correlation);
+            return null;
         }
 
-        const userSession = this.users.get(userId);
-        if (!userSession) {
-            this.sendError(webSocket, ErrorType.SESSION_NOT_FOUND);
-            return;
+        if (target.role === UserRole.HOST || target.userId === this.getConnectionUserId(webSocket)) {
+            this.sendError(webSocket, ErrorType.PERMISSION_DENIED, correlation);
+            return null;
         }
 
-        userSession.userName = userName;
-        this.users.set(userId, userSession);
+        return target;
+    }
 
-        this.sendSystemMessage(`${userName}XXXupdated_name`);
+    private async handleSetRole(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.setRole>, correlation: RequestCorrelation | undefined): Promise<CommandResult> {
+        const { role } = data.content;
+        const target = this.resolveModerationTarget(webSocket, data.content.userId, correlation);
+        if (!target) return null;
+
+        const tokenRole = this.getUserTokenRole(target.userId) ?? target.role ?? UserRole.VIEWER;
+        target.role = role;
+        this.saveUserSession(target);
+        // 持久化调整结果，被降级的成员用原令牌重连后仍保持新角色；降到令牌角色以下时换发该令牌，换 userId 也无法恢复
+        await this.setRoleOverride(target.userId, role);
+        if (ROLE_RANK[role] < ROLE_RANK[tokenRole]) {
+            await this.rotateRoleToken(tokenRole);
+        }
+
+        this.sendSystemMessage(`${target.userName}XXXrole_changed_to_${role}`);
         this.broadcastUserList();
+        return COMMAND_APPLIED;
     }
 
-    // 处理创建房间逻辑
-    private async handleCreate(webSocket: WebSocket, data: WebSocketMessage) {
-        if (!data.content || !data.content.userId || !data.content.userName || !data.content.role) {
-            this.sendError(webSocket, ErrorType.MISSING_USER_INFO);
-            return;
-        }
+    private handleKickUser(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.kickUser>, correlation: RequestCorrelation | undefined): CommandResult {
+        const target = this.resolveModerationTarget(webSocket, data.content.userId, correlation);
+        if (!target) return null;
 
-        const { userId, userName, role, fileName } = data.content;
-        const { protocolVersion, platform, appVersion } = this.resolveClientMeta(data.content);
-        const hasActiveUsers = this.users.size > 0;
-        const wasWaitingCleanup = this.pendingCleanupAt !== null;
-        console.log(`handle_create hasActiveUsers=${hasActiveUsers} wasWaitingCleanup=${wasWaitingCleanup}`);
+        this.disconnectUser(target.userId, 'kicked_by_host');
+        this.sendSystemMessage(`${target.userName}XXXkicked_from_room`);
+        this.broadcastUserList();
+        return COMMAND_APPLIED;
+    }
 
-        this.cancelPendingCleanup();
-        this.isRoomClosed = false;
+    private async handleBanUser(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.banUser>, correlation: RequestCorrelation | undefined): Promise<CommandResult> {
+        const target = this.resolveModerationTarget(webSocket, data.content.userId, correlation);
+        if (!target) return null;
 
-        // 确保只有 HOST 角色的用户才能创建房间
-        if (role !== UserRole.HOST) {
-            this.sendError(webSocket, ErrorType.ROOM_IS_CLOSED);
-            return;
-        }
+        // 断开前记下其令牌角色，封禁后换发该令牌，避免换个 userId 用原链接重新进入
+        const tokenRole = this.getUserTokenRole(target.userId) ?? target.role ?? UserRole.VIEWER;
+        const bannedUserIds = await this.loadBannedUserIds();
+        bannedUserIds.add(target.userId);
+        await this.state.storage.put(BANNED_USERS_STORAGE_KEY, Array.from(bannedUserIds));
+        await this.rotateRoleToken(tokenRole);
 
-        // 发起者协议版本决定房间最低版本
-        this.roomMinProtocolVersion = protocolVersion;
+        this.disconnectUser(target.userId, 'banned_by_host');
+        this.sendSystemMessage(`${target.userName}XXXbanned_from_room`);
+        this.broadcastUserList();
+        return COMMAND_APPLIED;
+    }
 
-        // 首次创建房间时清理旧缓存；若房间正处于空房间宽限期，视为重连不清库
-        if (!hasActiveUsers && !wasWaitingCleanup) {
-            await this.state.storage.deleteAll();
-            await this.state.storage.deleteAlarm();
-            console.log('handle_create_fresh_room_cleared_storage');
-        } else {
-            console.log('handle_create_reconnect_keep_storage');
+    private async handleTransferHost(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.transferHost>, correlation: RequestCorrelation | undefined): Promise<CommandResult> {
+        const target = this.resolveModerationTarget(webSocket, data.content.userId, correlation);
+        if (!target) return null;
+
+        const currentHostId = this.getConnectionUserId(webSocket);
+        const currentHost = currentHostId ? this.users.get(currentHostId) : undefined;
+        if (currentHost) {
+            currentHost.role = UserRole.EDITOR;
+            this.saveUserSession(currentHost);
+            // 原主持人仍持有主持人令牌，记录降级避免其重连后夺回主持人身份
+            await this.setRoleOverride(currentHost.userId, UserRole.EDITOR);
         }
+        // 换发主持人令牌，新主持人在 assignHost 中收到新令牌
+        await this.rotateRoleToken(UserRole.HOST);
 
-        const userSession = this.loginUserSession(webSocket, userId, userName, role, protocolVersion, platform, appVersion);
-        if (!userSession) return;
+        await this.assignHost(target, 'host_transferred');
+        return COMMAND_APPLIED;
+    }
 
-        if (fileName) {
-            this.fileName = fileName;
+    private async loadBannedUserIds(): Promise<Set<string>> {
+        if (!this.bannedUserIds) {
+            const stored = await this.state.storage.get<string[]>(BANNED_USERS_STORAGE_KEY);
+            this.bannedUserIds = new Set(stored ?? []);
         }
+        return this.bannedUserIds;
+    }
 
-        this.sendSystemMessage(`${userName}XXXjoined_room`);
-        this.broadcastUserList();
+    private async loadRoleOverrides(): Promise<Map<string, UserRole>> {
+        if (!this.roleOverrides) {
+            const stored = await this.state.storage.get<Record<string, UserRole>>(ROLE_OVERRIDES_STORAGE_KEY);
+            this.roleOverrides = new Map(Object.entries(stored ?? {}));
+        }
+        return this.roleOverrides;
     }
 
-    // 处理加入房间逻辑
-    private async handleJoin(webSocket: WebSocket, data: WebSocketMessage) {
+    // role 为 null 表示清除调整记录，恢复按令牌决定角色
+    private async setRoleOverride(userId: string, role: UserRole | null) {
+        const roleOverrides = await this.loadRoleOverrides();
+        if (role === null) {
+            if (!roleOverrides.delete(userId)) return;
+        } else {
+            roleOverrides.set(userId, role);
+        }
+        await this.state.storage.put(ROLE_OVERRIDES_STORAGE_KEY, Object.fromEntries(roleOverrides));
+    }
+
+    // 断开某用户的所有连接，并立即移出在线列表（不等待 close 事件）
+    private disconnectUser(userId: string, reason: string) {
+        this.users.delete(userId);
+        this.releaseUserLocks(userId);
+        this.clearPresence(userId);
+
+        for (const ws of this.getUserSockets(userId)) {
+            try {
+                // 复用 closeRoom 通知，旧客户端也能正常退出房间；附件中记录了连接的帧编码，需在清空前发出
+                this.sendMessage(ws, { type: RealTimeCommand.closeRoom, content: reason });
+            } catch (error) {
+                console.error('error_disconnecting_user', error);
+            }
+            ws.serializeAttachment(null);
+            try {
+                ws.close(1000, reason);
+            } catch (error) {
+                console.error('error_disconnecting_user', error);
+            }
+        }
+    }
+
+    private handleUserUpdate(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.userUpdate>, correlation: RequestCorrelation | undefined): CommandResult {
+        const { userName } = data.content;
+        const userId = this.getConnectionUserId(webSocket);
+
+        if (!userId) {
+            this.sendError(webSocket, ErrorType.USER_NOT_FOUND, correlation);
+            return null;
+        }
+
+        const userSession = this.users.get(userId);
+        if (!userSession) {
+            this.sendError(webSocket, ErrorType.SESSION_NOT_FOUND, correlation);
+            return null;
+        }
+
+        userSession.userName = userName;
+        this.saveUserSession(userSession);
+
+        this.sendSystemMessage(`${userName}XXXupdated_name`);
+        this.broadcastUserList();
+        return COMMAND_APPLIED;
+    }
+
+    // 处理创建房间逻辑
+    private async handleCreate(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.create>, correlation: RequestCorrelation | undefined): Promise<CommandResult> {
+        const { userId, userName, role, fileName, token } = data.content;
+        const { protocolVersion, wireEncoding, platform, appVersion } = this.resolveClientMeta(data.content);
+        const hasActiveUsers = this.users.size > 0;
+        const wasWaitingCleanup = this.pendingCleanupAt !== null;
+        console.log(`handle_create hasActiveUsers=${hasActiveUsers} wasWaitingCleanup=${wasWaitingCleanup}`);
+
+        // 确保只有 HOST 角色的用户才能创建房间
+        if (role !== UserRole.HOST) {
+            this.sendError(webSocket, ErrorType.ONLY_HOST_CAN_CREATE, correlation);
+            return null;
+        }
+
+        // 房间仍在使用中（在线或宽限期）时，只有持有主持人令牌才能重连，避免他人抢占房间
+        const isReconnect = hasActiveUsers || wasWaitingCleanup;
+        if (isReconnect && await this.resolveTokenRole(token) !== UserRole.HOST) {
+            this.sendError(webSocket, ErrorType.INVALID_TOKEN, correlation);
+            return null;
+        }
+
+        // 被封禁的原主持人仍持有有效的主持人令牌，重连时同样要检查封禁列表
+        if (isReconnect && (await this.loadBannedUserIds()).has(userId)) {
+            this.sendError(webSocket, ErrorType.USER_BANNED, correlation);
+            webSocket.close(1000, ErrorType.USER_BANNED);
+            return null;
+        }
+
+        // 登记邀请码：新房间生成新码，重连时沿用并顺延有效期
+        let inviteCode: InviteCode | null;
+        try {
+            inviteCode = await this.registerInviteCode();
+        } catch (error) {
+            console.error('failed_register_invite_code', error);
+            this.sendError(webSocket, ErrorType.INVITE_CODE_FAILED, correlation);
+            return null;
+        }
+
+        this.cancelPendingCleanup();
+        this.isRoomClosed = false;
+
+        // 发起者协议版本决定房间最低版本
+        this.roomMinProtocolVersion = protocolVersion;
+
+        // 首次创建房间时清理旧缓存并签发新令牌；若房间正处于空房间宽限期，视为重连不清库
+        let tokens: RoomTokens;
+        if (!isReconnect) {
+            await this.state.storage.deleteAll();
+            await this.state.storage.deleteAlarm();
+            this.messages = [];
+            this.sequence = Chat.createRoomSequence();
+            this.histories.clear();
+            this.bannedUserIds = null;
+            this.roleOverrides = null;
+            tokens = await this.issueRoomTokens();
+            console.log('handle_create_fresh_room_cleared_storage');
+        } else {
+            const epochs = await this.loadTokenEpochs();
+            tokens = epochs ? await this.signRoomTokens(epochs) : await this.issueRoomTokens();
+            console.log('handle_create_reconnect_keep_storage');
+        }
+        this.inviteCode = inviteCode;
+
+        // 已被降级的原主持人按调整后的角色进入
+        const hostRole = (await this.loadRoleOverrides()).get(userId) ?? this.resolveHostSeat(userId);
+        const userSession = this.loginUserSession(webSocket, userId, userName, hostRole, protocolVersion, wireEncoding, UserRole.HOST, correlation, platform, appVersion);
+        if (!userSession) return null;
+
+        if (hostRole === UserRole.HOST) {
+            this.sendRoomTokens(webSocket, tokens);
+            this.sendInviteCode(webSocket);
+        }
+
+        if (fileName) {
+            this.fileName = fileName;
+        }
+        this.persistRoomMeta();
+
+        this.sendSystemMessage(`${userName}XXXjoined_room`);
+        this.broadcastUserList();
+        return COMMAND_APPLIED;
+    }
+
+    // 处理加入房间逻辑
+    private async handleJoin(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.join>, correlation: RequestCorrelation | undefined): Promise<CommandResult> {
         if (this.isRoomClosed) {
-            this.sendError(webSocket, ErrorType.ROOM_IS_CLOSED);
+            this.sendError(webSocket, ErrorType.ROOM_IS_CLOSED, correlation);
             webSocket.close(1000, ErrorType.ROOM_IS_CLOSED);
-            return;
+            return null;
         }
 
-        if (!data.content || !data.content.userId || !data.content.userName || !data.content.role) {
-            this.sendError(webSocket, ErrorType.MISSING_USER_INFO);
-            return;
-        }
+        const { userId, userName, token } = data.content;
+        const { protocolVersion, wireEncoding, platform, appVersion } = this.resolveClientMeta(data.content);
 
-        const { userId, userName, role } = data.content;
-        const { protocolVersion, platform, appVersion } = this.resolveClientMeta(data.content);
+        const bannedUserIds = await this.loadBannedUserIds();
+        if (bannedUserIds.has(userId)) {
+            this.sendError(webSocket, ErrorType.USER_BANNED, correlation);
+            webSocket.close(1000, ErrorType.USER_BANNED);
+            return null;
+        }
 
-        // 检查房间是否存在：在线用户存在，或处于空房间宽限期，或已有房间协议版本
-        const roomExists =
-            this.users.size > 0 ||
-            this.pendingCleanupAt !== null ||
-            this.roomMinProtocolVersion !== null;
+        const roomExists = this.hasActiveRoom();
         console.log(
             `handle_join roomExists=${roomExists} users=${this.users.size} pendingCleanup=${this.pendingCleanupAt !== null} roomMinVersion=${this.roomMinProtocolVersion ?? 'null'}`
         );
 
-        // 如果房间不存在且用户不是 HOST，则发送错误
-        if (!roomExists && role !== UserRole.HOST) {
-            this.sendError(webSocket, ErrorType.ROOM_IS_CLOSED);
-            return;
+        if (!roomExists) {
+            this.sendError(webSocket, ErrorType.ROOM_IS_CLOSED, correlation);
+            return null;
         }
 
-        if (!this.validateJoinProtocolCompatibility(webSocket, protocolVersion)) {
-            return;
+        // 角色由令牌决定，主持人调整过的角色优先；未携带令牌的旧客户端按观看者加入，携带无效令牌则拒绝
+        const roleOverride = (await this.loadRoleOverrides()).get(userId);
+        let role: UserRole = roleOverride ?? UserRole.VIEWER;
+        let tokenRole: UserRole = UserRole.VIEWER;
+        if (token !== undefined) {
+            const resolved = await this.resolveTokenRole(token);
+            if (!resolved) {
+                this.sendError(webSocket, ErrorType.INVALID_TOKEN, correlation);
+                return null;
+            }
+            tokenRole = resolved;
+            role = roleOverride ?? (tokenRole === UserRole.HOST ? this.resolveHostSeat(userId) : tokenRole);
+        }
+
+        if (!this.validateJoinProtocolCompatibility(webSocket, protocolVersion, correlation)) {
+            return null;
         }
 
         this.cancelPendingCleanup();
-        const userSession = this.loginUserSession(webSocket, userId, userName, role, protocolVersion, platform, appVersion);
-        if (!userSession) return;
+        const userSession = this.loginUserSession(webSocket, userId, userName, role, protocolVersion, wireEncoding, tokenRole, correlation, platform, appVersion);
+        if (!userSession) return null;
+
+        const initData = this.buildInitData();
+
+        // 客户端携带 syncId/lastSeq 重连时只补发缺失的操作，否则下发全量快照
+        const missedOperations = await this.getOperationsSince(data.content.syncId, data.content.lastSeq);
+        if (missedOperations) {
+            initData.delta = true;
+            initData.operations = missedOperations;
+            this.sendInitSetup(webSocket, initData);
+        } else {
+            await this.sendFullSnapshot(webSocket, initData, protocolVersion);
+        }
 
-        let initData: any = {
-            messages: this.messages,
+        this.sendSystemMessage(`${userName}XXXjoined_room`);
+        this.broadcastUserList();
+        return COMMAND_APPLIED;
+    }
+
+    // initSetup 中除画板数据外的房间信息
+    private buildInitData(): any {
+        const recentMessages = this.getChatHistoryPage(this.messages.length, Chat.INIT_SETUP_CHAT_MESSAGES);
+        return {
+            messages: recentMessages.messages,
+            hasMoreMessages: recentMessages.hasMore,
+            locks: this.getActiveLocks(),
+            presences: Array.from(this.presences.values()),
+            presenterView: this.presenterView,
             users: Array.from(this.users.values()),
             fileName: this.fileName,
-            roomMinProtocolVersion: this.roomMinProtocolVersion ?? LEGACY_COLLAB_PROTOCOL_VERSION
+            roomMinProtocolVersion: this.roomMinProtocolVersion ?? LEGACY_COLLAB_PROTOCOL_VERSION,
+            syncId: this.sequence.syncId,
+            seq: this.sequence.seq
+        };
+    }
+
+    private async sendFullSnapshot(webSocket: WebSocket, initData: any, protocolVersion: number) {
+        if (protocolVersion >= CHUNKED_SNAPSHOT_PROTOCOL_VERSION) {
+            await this.sendChunkedSnapshot(webSocket, initData);
+        } else {
+            // v1 客户端：单帧 initSetup
+            await this.appendBoardSnapshot(initData);
+            this.sendInitSetup(webSocket, initData);
+        }
+    }
+
+    private sendInitSetup(webSocket: WebSocket, initData: any) {
+        this.sendMessage(webSocket, {
+            type: RealTimeCommand.initSetup,
+            content: initData
+        });
+    }
+
+    // 分块下发全量快照：initSetupBegin（房间信息与背景）→ 若干 initSetupChunk → initSetupEnd
+    private async sendChunkedSnapshot(webSocket: WebSocket, initData: any) {
+        try {
+            initData.bgModel = (await this.state.storage.get(BACKGROUND_STORAGE_KEY)) ?? null;
+        } catch (error) {
+            console.error('error_fetching_bgModel', error);
+            initData.bgModel = null;
+        }
+
+        this.sendMessage(webSocket, {
+            type: RealTimeCommand.initSetupBegin,
+            content: initData
+        });
+
+        const encoder = new TextEncoder();
+        let chunk: Record<string, unknown[]> = {};
+        let chunkBytes = 0;
+        let chunkCount = 0;
+
+        const flush = () => {
+            if (chunkBytes === 0) return;
+            this.sendMessage(webSocket, {
+                type: RealTimeCommand.initSetupChunk,
+                content: { index: chunkCount, ...chunk }
+            });
+            chunkCount += 1;
+            chunk = {};
+            chunkBytes = 0;
         };
 
+        const sections: Array<[string, PrefixType]> = [
+            ['moveModels', PrefixType.moveView],
+            ['drawingModels', PrefixType.drawing],
+        ];
+
+        // 读取失败时仍发送 initSetupEnd，避免客户端一直等待
+        try {
+            for (const [field, prefix] of sections) {
+                let startAfter: string | undefined;
+                while (true) {
+                    const page = await this.state.storage.list({
+                        prefix,
+                        startAfter,
+                        limit: Chat.SNAPSHOT_LIST_PAGE_SIZE
+                    });
+
+                    for (const [key, stored] of page) {
+                        const value = prefix === PrefixType.drawing
+                            ? await this.decodeDrawingRecord(key.slice(prefix.length), stored as StoredDrawing)
+                            : stored;
+                        const size = encoder.encode(JSON.stringify(value)).byteLength;
+                        // 单条记录超过上限时独占一帧
+                        if (chunkBytes > 0 && chunkBytes + size > Chat.SNAPSHOT_CHUNK_MAX_BYTES) {
+                            flush();
+                        }
+                        (chunk[field] ??= []).push(value);
+                        chunkBytes += size;
+                        startAfter = key;
+                    }
+
+                    if (page.size < Chat.SNAPSHOT_LIST_PAGE_SIZE) break;
+                }
+            }
+        } catch (error) {
+            console.error('error_fetching_snapshot_chunks', error);
+        }
+        flush();
+
+        this.sendMessage(webSocket, {
+            type: RealTimeCommand.initSetupEnd,
+            content: { chunkCount, seq: initData.seq }
+        });
+    }
+
+    // 读取画板全量数据（移动层、背景、绘画线条）写入 initSetup
+    private async appendBoardSnapshot(initData: any) {
         // 安全地获取和添加 moveModels
         try {
             const moveModelsMap = await this.state.storage.list({
@@ -411,7 +1437,7 @@ export class Chat {
 
         // 安全地获取和添加 bgModel
         try {
-            const bgModel = await this.state.storage.get(RealTimeCommand.updateBackground);
+            const bgModel = await this.state.storage.get(BACKGROUND_STORAGE_KEY);
             if (bgModel) {
                 initData.bgModel = bgModel;
             }
@@ -422,11 +1448,12 @@ export class Chat {
 
         // 安全地获取绘画线条
         try {
-            const drawingModelsMap = await this.state.storage.list({
+            const drawingModelsMap = await this.state.storage.list<StoredDrawing>({
                 prefix: PrefixType.drawing
             });
 
-            const drawingModels = Array.from(drawingModelsMap.values());
+            const drawingModels = await Promise.all(Array.from(drawingModelsMap, ([key, record]) =>
+                this.decodeDrawingRecord(key.slice(PrefixType.drawing.length), record)));
             if (drawingModels.length > 0) {
                 initData.drawingModels = drawingModels;
             } else {
@@ -436,14 +1463,6 @@ export class Chat {
             console.error('error_fetching_drawingModels', error);
             initData.drawingModels = [];
         }
-
-        webSocket.send(JSON.stringify({
-            type: RealTimeCommand.initSetup,
-            content: initData
-        }));
-
-        this.sendSystemMessage(`${userName}XXXjoined_room`);
-        this.broadcastUserList();
     }
 
 
@@ -462,35 +1481,61 @@ export class Chat {
         return sanitized;
     }
 
+    // 取 end 之前最多 pageSize 条聊天记录
+    private getChatHistoryPage(end: number, pageSize: number): ChatHistoryPage {
+        const start = Math.max(0, end - pageSize);
+        return {
+            messages: this.messages.slice(start, end),
+            hasMore: start > 0
+        };
+    }
+
+    // 处理聊天记录分页：before 可为消息 id 或时间戳，返回其之前的一页记录
+    private handleChatHistory(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.chatHistory>, correlation: RequestCorrelation | undefined): CommandResult {
+        const { before, limit } = data.content;
+
+        let end = this.messages.length;
+        if (typeof before === 'string') {
+            end = this.messages.findIndex((message) => message.id === before);
+            if (end < 0) {
+                this.sendError(webSocket, ErrorType.INVALID_CURSOR, correlation);
+                return null;
+            }
+        } else if (typeof before === 'number') {
+            const index = this.messages.findIndex((message) => message.timestamp >= before);
+            end = index < 0 ? this.messages.length : index;
+        }
+
+        const pageSize = limit !== undefined
+            ? Math.min(limit, Chat.CHAT_HISTORY_MAX_PAGE_SIZE)
+            : Chat.CHAT_HISTORY_PAGE_SIZE;
+
+        this.sendMessage(webSocket, {
+            type: RealTimeCommand.chatHistory,
+            content: this.getChatHistoryPage(end, pageSize)
+        });
+        return COMMAND_APPLIED;
+    }
+
     // 处理聊天消息
-    private handleChat(webSocket: WebSocket, data: WebSocketMessage) {
-        const userId = this.connectionToUser.get(webSocket);
+    private handleChat(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.chat>, correlation: RequestCorrelation | undefined): CommandResult {
+        const userId = this.getConnectionUserId(webSocket);
         if (!userId) {
-            this.sendError(webSocket, ErrorType.USER_NOT_JOINED);
-            return;
+            this.sendError(webSocket, ErrorType.USER_NOT_JOINED, correlation);
+            return null;
         }
 
         if (this.messageLimiter.isRateLimited(userId)) {
-            this.sendError(webSocket, ErrorType.RATE_LIMITED);
-            return;
+            this.sendError(webSocket, ErrorType.RATE_LIMITED, correlation);
+            return null;
         }
 
         const user = this.users.get(userId);
-        if (!user) return;
-
+        if (!user) return null;
 
-        // 验证消息内容
-        const content = data.content?.content;
-        if (!content || typeof content !== 'string') {
-            this.sendError(webSocket, ErrorType.INVALID_FORMAT);
-            return;
-        }
 
-        // 检查消息长度
-        if (content.length > 1000) { // 限制消息长度
-            this.sendError(webSocket, ErrorType.MESSAGE_TOO_LONG);
-            return;
-        }
+        // 消息内容与长度已在协议校验中检查
+        const { content } = data.content;
 
         // 简单的内容过滤，可以根据需要扩展
         const filteredContent = this.sanitizeContent(content);
@@ -504,208 +1549,1844 @@ export class Chat {
             messageType: MessageType.TEXT,
         };
 
-        this.messages.push(message);
+        this.appendChatMessage(message);
 
-        const payload = JSON.stringify({ type: RealTimeCommand.chat, content: message });
+        const payload = { type: RealTimeCommand.chat, content: message };
         this.broadcast(payload);
+        return COMMAND_APPLIED;
     }
 
     // 处理背景更新的具体实现
-    private handleUpdateBackground(webSocket: WebSocket, data: WebSocketMessage) {
+    private handleUpdateBackground(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.updateBackground>, correlation: RequestCorrelation | undefined): CommandResult {
 
-        const userId = this.connectionToUser.get(webSocket);
-        if (!userId) return;
+        const userId = this.getConnectionUserId(webSocket);
+        if (!userId) return null;
 
         if (this.drawingLimiter.isRateLimited(userId)) {
-            this.sendError(webSocket, ErrorType.RATE_LIMITED);
-            return;
+            this.sendError(webSocket, ErrorType.RATE_LIMITED, correlation);
+            return null;
         }
 
-        if (data.content) {
-            this.state.storage.put(RealTimeCommand.updateBackground, data.content);
-            if (!data.broadcast) return;
-            const payload = JSON.stringify({ type: RealTimeCommand.updateBackground, content: data.content });
+        this.state.storage.put(RealTimeCommand.updateBackground, data.content);
+        const seq = this.recordOperation(RealTimeCommand.updateBackground, data.content);
+        if (data.broadcast) {
+            const payload = { type: RealTimeCommand.updateBackground, content: data.content, seq };
             this.broadcast(payload, webSocket);
         }
+        return { seq };
     }
 
 
     // 处理移动层更新
-    private async handleUpdateMoveView(webSocket: WebSocket, data: WebSocketMessage) {
+    private async handleUpdateMoveView(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.updateMoveView>, correlation: RequestCorrelation | undefined): Promise<CommandResult> {
 
-        const userId = this.connectionToUser.get(webSocket);
-        if (!userId) return;
+        const userId = this.getConnectionUserId(webSocket);
+        if (!userId) return null;
 
         if (this.drawingLimiter.isRateLimited(userId)) {
-            this.sendError(webSocket, ErrorType.RATE_LIMITED);
-            return;
+            this.sendError(webSocket, ErrorType.RATE_LIMITED, correlation);
+            return null;
+        }
+
+        const { id, model } = data.content;
+        if (this.isLockedByOther(id, userId)) {
+            this.sendError(webSocket, ErrorType.OBJECT_LOCKED, correlation);
+            return null;
+        }
+
+        const storageKey = `${PrefixType.moveView}${id}`;
+        const previous = (await this.state.storage.get<Metadata>(storageKey)) ?? null;
+        if (this.rejectStaleWrite(webSocket, correlation, RealTimeCommand.updateMoveView, id, data.content.baseVersion, previous)) {
+            return null;
         }
 
-        if (data.content) {
-            const { id, model } = data.content;
-            const metadata: Metadata = {
-                id,
-                model,
-                timestamp: Date.now()
-            };
+        const version = (previous?.version ?? 0) + 1;
+        const seq = this.recordOperation(RealTimeCommand.updateMoveView, data.content, version);
+        const metadata: Metadata = {
+            id,
+            model,
+            timestamp: Date.now(),
+            seq,
+            version
+        };
 
-            const storageKey = `${PrefixType.moveView}${id}`;
-            await this.state.storage.put(storageKey, metadata);
+        await this.state.storage.put(storageKey, metadata);
+        await this.pushHistory(userId, { prefix: PrefixType.moveView, id, expected: metadata, target: previous });
 
-            if (!data.broadcast) return;
-            this.broadcast(JSON.stringify({
+        if (data.broadcast) {
+            // 拖动时的连续更新按对象合并，窗口内只转发最新位置
+            this.broadcastCoalesced(moveViewQueueKey(id), {
                 type: RealTimeCommand.updateMoveView,
-                content: data.content
-            }), webSocket);
+                content: data.content,
+                seq,
+                version
+            }, webSocket);
         }
+        return { seq };
     }
 
     // 处理删除移动层
-    private async handleDeleteMoveView(webSocket: WebSocket, data: WebSocketMessage) {
+    private async handleDeleteMoveView(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.deleteMoveView>, correlation: RequestCorrelation | undefined): Promise<CommandResult> {
 
-        const userId = this.connectionToUser.get(webSocket);
-        if (!userId) return;
+        const userId = this.getConnectionUserId(webSocket);
+        if (!userId) return null;
 
         if (this.drawingLimiter.isRateLimited(userId)) {
-            this.sendError(webSocket, ErrorType.RATE_LIMITED);
-            return;
+            this.sendError(webSocket, ErrorType.RATE_LIMITED, correlation);
+            return null;
         }
 
+        const { id } = data.content;
+        if (this.isLockedByOther(id, userId)) {
+            this.sendError(webSocket, ErrorType.OBJECT_LOCKED, correlation);
+            return null;
+        }
 
-        if (data.content) {
-
-            const { id } = data.content;
-            const storageKey = `${PrefixType.moveView}${id}`;
-            await this.state.storage.delete(storageKey);
-
-            this.broadcast(JSON.stringify({
-                type: RealTimeCommand.deleteMoveView,
-                content: { id }
-            }), webSocket);
+        const storageKey = `${PrefixType.moveView}${id}`;
+        const previous = (await this.state.storage.get<Metadata>(storageKey)) ?? null;
+        await this.state.storage.delete(storageKey);
+        const seq = this.recordOperation(RealTimeCommand.deleteMoveView, { id });
+        if (this.objectLocks.delete(id)) {
+            this.broadcastUnlock(id);
         }
+        if (previous) {
+            await this.pushHistory(userId, { prefix: PrefixType.moveView, id, expected: null, target: previous });
+        }
+
+        this.discardCoalesced((key) => key === moveViewQueueKey(id));
+        this.broadcast({
+            type: RealTimeCommand.deleteMoveView,
+            content: { id },
+            seq
+        }, webSocket);
+        return { seq };
     }
 
     // 处理绘画更新
-    private async handleDrawingUpdate(webSocket: WebSocket, data: WebSocketMessage) {
-        if (!data.content) return;
-
-
+    private async handleDrawingUpdate(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.drawingUpdate>, correlation: RequestCorrelation | undefined): Promise<CommandResult> {
         try {
 
-            const userId = this.connectionToUser.get(webSocket);
-            if (!userId) return;
+            const userId = this.getConnectionUserId(webSocket);
+            if (!userId) return null;
 
             if (this.drawingLimiter.isRateLimited(userId)) {
-                this.sendError(webSocket, ErrorType.RATE_LIMITED);
-                return;
+                this.sendError(webSocket, ErrorType.RATE_LIMITED, correlation);
+                return null;
             }
 
 
-            const { id, action, model } = data.content;
+            const content: DrawingUpdateContent = data.content;
+            let seq: number;
+            let version: number | undefined;
+
+            if (content.action === 'clearStrokes') {
+                // 清空前自动保存检查点，误清空后主持人仍可恢复；画板本就没有笔迹时不保存，避免挤掉有内容的检查点
+                const existingDrawings = await this.state.storage.list({ prefix: PrefixType.drawing, limit: 1 });
+                if (existingDrawings.size > 0) {
+                    await this.createCheckpoint('auto_clear_strokes', this.users.get(userId)?.userName ?? null, true);
+                }
+                seq = this.recordOperation(RealTimeCommand.drawingUpdate, content);
+                await this.deleteByPrefix(PrefixType.drawing);
+                await this.deleteByPrefix(PrefixType.drawingPart);
+                // 清空后旧的绘画撤销记录已无对应数据
+                await this.dropHistory(PrefixType.drawing);
+            } else {
+                const { id, model, action } = content;
+                // 先压缩新 model 再读取当前记录：读取、版本校验与写入之间只有存储操作，
+                // 输入门保证其间不会插入其他请求，并发写入不会都通过同一版本的校验
+                const encoded = await encodeDrawingModel(model);
+                const previous = await this.readStoredDrawing(id);
+                if (await this.rejectStaleDrawingWrite(webSocket, correlation, RealTimeCommand.drawingUpdate, id, content.baseVersion, previous)) {
+                    return null;
+                }
+
+                version = (previous?.version ?? 0) + 1;
+                seq = this.recordOperation(RealTimeCommand.drawingUpdate, content, version);
+                const metadata: Metadata = {
+                    id,
+                    model,
+                    timestamp: Date.now(),
+                    seq,
+                    action,
+                    version
+                };
+
+                const { puts, deletes } = drawingWrites(id, metadata, encoded, previous);
+                await this.commitWrites(puts, deletes);
+                await this.pushHistory(userId, { prefix: PrefixType.drawing, id, expected: metadata, target: previous });
+            }
 
-            if (!['addStrokes', 'moveStrokes', 'removeStrokes', 'clearStrokes'].includes(action)) {
-                throw new Error('invalid_drawing_action');
+            if (data.broadcast) {
+                const payload = {
+                    type: RealTimeCommand.drawingUpdate,
+                    content: data.content,
+                    seq,
+                    version
+                };
+                this.broadcast(payload, webSocket);
             }
+            return { seq };
+        } catch (error) {
+            console.error('error_handling_drawing_update', error);
+            this.sendError(webSocket, ErrorType.DRAWING_UPDATE_FAILED, correlation);
+            return null;
+        }
+    }
+
+
+
+    // 批量处理绘画/移动层操作：先整体校验锁和版本，任一不通过则整批拒绝；
+    // 通过后在一个存储事务中写入，并合并为一帧转发
+    private async handleBatch(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.batch>, correlation: RequestCorrelation | undefined): Promise<CommandResult> {
+        const userId = this.getConnectionUserId(webSocket);
+        if (!userId) return null;
 
-            const metadata: Metadata = {
-                id,
-                model,
-                timestamp: Date.now()
-            };
+        const { operations } = data.content;
+        const cost = Math.ceil(operations.length / Chat.BATCH_OPERATIONS_PER_RATE_UNIT);
+        if (this.drawingLimiter.isRateLimited(userId, cost)) {
+            this.sendError(webSocket, ErrorType.RATE_LIMITED, correlation);
+            return null;
+        }
+
+        try {
+            const prefixOf = (operation: BatchOperation) => operation.type === RealTimeCommand.drawingUpdate
+                ? PrefixType.drawing
+                : PrefixType.moveView;
+            const storageKeyOf = (operation: BatchOperation) => `${prefixOf(operation)}${operation.content.id}`;
+            const targets = new Map(operations.map((operation) => [storageKeyOf(operation), {
+                prefix: prefixOf(operation),
+                id: operation.content.id
+            }]));
+
+            // 先压缩每条笔迹最终写入的 model，之后读取、版本校验与写入之间只有存储操作
+            const finalModels = new Map<string, string>();
+            for (const operation of operations) {
+                if (operation.type === RealTimeCommand.drawingUpdate) {
+                    finalModels.set(storageKeyOf(operation), operation.content.model);
+                }
+            }
+            const encoded = new Map<string, EncodedModel>();
+            for (const [key, model] of finalModels) {
+                encoded.set(key, await encodeDrawingModel(model));
+            }
 
-            const storageKey = `${PrefixType.drawing}${id}`;
+            const stored = await this.state.storage.get<StoredDrawing>(Array.from(targets.keys()));
+            // 批次内对同一对象的多次操作依次叠加，current 记录每个 key 的最新值（null 表示删除）；绘画记录保持存储形式
+            const current = new Map<string, Metadata | StoredDrawing | null>();
+            for (const [key, { prefix, id }] of targets) {
+                const record = stored.get(key);
+                current.set(key, record && prefix === PrefixType.drawing ? await this.loadDrawingParts(id, record) : record ?? null);
+            }
+            const steps: { operation: BatchOperation; previous: Metadata | StoredDrawing | null; next: Metadata | null; seq?: number }[] = [];
+            const timestamp = Date.now();
+
+            for (const operation of operations) {
+                const { id } = operation.content;
+                const key = storageKeyOf(operation);
+                const previous = current.get(key) ?? null;
+
+                if (operation.type !== RealTimeCommand.drawingUpdate && this.isLockedByOther(id, userId)) {
+                    this.sendError(webSocket, ErrorType.OBJECT_LOCKED, correlation);
+                    return null;
+                }
+
+                let next: Metadata | null = null;
+                if (operation.type !== RealTimeCommand.deleteMoveView) {
+                    const { model, baseVersion } = operation.content;
+                    const stale = operation.type === RealTimeCommand.drawingUpdate
+                        ? await this.rejectStaleDrawingWrite(webSocket, correlation, operation.type, id, baseVersion, previous)
+                        : this.rejectStaleWrite(webSocket, correlation, operation.type, id, baseVersion, previous as Metadata | null);
+                    if (stale) {
+                        return null;
+                    }
+                    next = { id, model, timestamp, version: (previous?.version ?? 0) + 1 };
+                    if (operation.type === RealTimeCommand.drawingUpdate) {
+                        next.action = operation.content.action;
+                    }
+                }
+
+                current.set(key, next);
+                steps.push({ operation, previous, next });
+            }
 
-            switch (action) {
-            case 'addStrokes':
-                await this.state.storage.put(storageKey, metadata);
-                break;
-            case 'moveStrokes':
-                await this.state.storage.put(storageKey, metadata);
-                break;
-            case 'removeStrokes':
-                await this.state.storage.put(storageKey, metadata);
-                break;
-            case 'clearStrokes':
-                await this.state.storage.delete({ prefix: PrefixType.drawing });
-                break;
+            // 全部通过后再分配序号，被拒绝的批次不会占用操作日志
+            for (const step of steps) {
+                const { operation, next } = step;
+                const content = operation.type === RealTimeCommand.deleteMoveView ? { id: operation.content.id } : operation.content;
+                step.seq = this.recordOperation(operation.type, content, next?.version);
+                if (next) {
+                    next.seq = step.seq;
+                }
             }
 
-            if (!data.broadcast) return;
-            const payload = JSON.stringify({
-                type: RealTimeCommand.drawingUpdate,
-                content: data.content
+            let puts: Record<string, unknown> = {};
+            let deletes: string[] = [];
+            for (const [key, value] of current) {
+                const { prefix, id } = targets.get(key)!;
+                if (prefix === PrefixType.drawing) {
+                    const write = drawingWrites(id, value as Metadata, encoded.get(key) ?? null, stored.get(key));
+                    puts = { ...puts, ...write.puts };
+                    deletes = deletes.concat(write.deletes);
+                } else if (value) {
+                    puts[key] = value;
+                } else {
+                    deletes.push(key);
+                }
+            }
+            await this.state.storage.transaction(async (txn) => {
+                if (Object.keys(puts).length > 0) {
+                    await txn.put(puts);
+                }
+                if (deletes.length > 0) {
+                    await txn.delete(deletes);
+                }
             });
 
-            this.broadcast(payload, webSocket);
+            for (const { operation, previous, next } of steps) {
+                const { id } = operation.content;
+                if (operation.type === RealTimeCommand.deleteMoveView) {
+                    if (this.objectLocks.delete(id)) {
+                        this.broadcastUnlock(id);
+                    }
+                    if (previous) {
+                        await this.pushHistory(userId, { prefix: PrefixType.moveView, id, expected: null, target: previous });
+                    }
+                } else {
+                    const prefix = operation.type === RealTimeCommand.drawingUpdate ? PrefixType.drawing : PrefixType.moveView;
+                    await this.pushHistory(userId, { prefix, id, expected: next, target: previous });
+                }
+            }
+
+            // 删除操作总是转发，其余操作与单条命令一样遵循 broadcast 标记
+            const relayed = steps
+                .filter(({ operation }) => data.broadcast || operation.type === RealTimeCommand.deleteMoveView)
+                .map(({ operation, next, seq }) => ({
+                    type: operation.type,
+                    content: operation.type === RealTimeCommand.deleteMoveView ? { id: operation.content.id } : operation.content,
+                    seq,
+                    version: next?.version
+                }));
+            if (relayed.length > 0) {
+                const superseded = new Set(relayed
+                    .filter(({ type }) => type !== RealTimeCommand.drawingUpdate)
+                    .map(({ content }) => moveViewQueueKey(content.id)));
+                this.discardCoalesced((key) => superseded.has(key));
+                this.broadcastBatch(relayed, webSocket);
+            }
+            // ack 回复批次中最后一个操作的序号
+            return { seq: steps[steps.length - 1]?.seq };
         } catch (error) {
-            console.error('error_handling_drawing_update', error);
-            this.sendError(webSocket, ErrorType.DRAWING_UPDATE_FAILED);
+            console.error('error_handling_batch', error);
+            this.sendError(webSocket, ErrorType.BATCH_FAILED, correlation);
+            return null;
         }
     }
 
+    private async handleCreateCheckpoint(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.createCheckpoint>, correlation: RequestCorrelation | undefined): Promise<CommandResult> {
+        const userId = this.getConnectionUserId(webSocket);
+        const userName = userId ? this.users.get(userId)?.userName ?? null : null;
 
-
-    // 清空所有
-    private handleClear(webSocket: WebSocket) {
-        const payload = JSON.stringify({ type: RealTimeCommand.clear });
-        this.broadcast(payload);
+        try {
+            const name = data.content.name ?? new Date().toISOString();
+            const checkpoint = await this.createCheckpoint(name, userName, false);
+            this.sendMessage(webSocket, { type: RealTimeCommand.createCheckpoint, content: checkpoint });
+            return COMMAND_APPLIED;
+        } catch (error) {
+            console.error('error_creating_checkpoint', error);
+            this.sendError(webSocket, ErrorType.CHECKPOINT_FAILED, correlation);
+            return null;
+        }
     }
 
-    // 广播消息给所有连接者
-    private broadcast(message: string, exclude?: WebSocket) {
-        for (const ws of this.connections) {
-            if (ws !== exclude) {
-                ws.send(message);
+    // 邀请码外泄时由主持人换发：旧码立即失效，已在房间内的成员不受影响，新码发给所有在线主持人
+    private async handleRotateInviteCode(webSocket: WebSocket, correlation: RequestCorrelation | undefined): Promise<CommandResult> {
+        try {
+            if (this.inviteCode) {
+                await this.revokeInviteCode(this.inviteCode.code, 'revoke');
+                this.inviteCode = null;
             }
+            this.inviteCode = await this.registerInviteCode();
+        } catch (error) {
+            console.error('error_rotating_invite_code', error);
+            this.sendError(webSocket, ErrorType.INVITE_CODE_FAILED, correlation);
+            return null;
         }
-    }
-
-    // 发送系统消息
-    private sendSystemMessage(content: string) {
-        const message: ChatMessage = {
-            id: crypto.randomUUID(),
-            userId: 'system',
-            userName: 'System',
-            content,
-            timestamp: Date.now(),
-            messageType: MessageType.SYSTEM,
-        };
-
-        this.messages.push(message);
+        this.persistRoomMeta();
 
-        const payload = JSON.stringify({ type: RealTimeCommand.chat, content: message });
-        this.broadcast(payload);
+        for (const ws of this.state.getWebSockets()) {
+            if (this.getConnectionSession(ws)?.role === UserRole.HOST) {
+                this.sendInviteCode(ws);
+            }
+        }
+        return COMMAND_APPLIED;
     }
 
-    // 添加一个用于发送错误消息的辅助函数
-    private sendError(webSocket: WebSocket, errorType: ErrorType) {
-        webSocket.send(JSON.stringify({
-            type: RealTimeCommand.error,
-            content: errorType
-        }));
+    private async handleListCheckpoints(webSocket: WebSocket): Promise<CommandResult> {
+        const checkpoints = await this.listCheckpoints();
+        this.sendMessage(webSocket, {
+            type: RealTimeCommand.listCheckpoints,
+            content: checkpoints.reverse() // 最新的在前
+        });
+        return COMMAND_APPLIED;
     }
 
-    // 广播用户列表
-    private broadcastUserList() {
-        const userList = Array.from(this.users.values());
-        const payload = JSON.stringify({ type: RealTimeCommand.userList, content: userList });
-        this.broadcast(payload);
-    }
+    // 恢复检查点：先自动保存当前画板，再在一个事务中替换画板数据，并向所有在线连接重新下发全量 initSetup
+    private async handleRestoreCheckpoint(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.restoreCheckpoint>, correlation: RequestCorrelation | undefined): Promise<CommandResult> {
+        const userId = this.getConnectionUserId(webSocket);
+        const userName = userId ? this.users.get(userId)?.userName ?? null : null;
 
-    // 处理 fetch 请求
-    async fetch(request: Request): Promise<Response> {
-        if (request.headers.get('Upgrade') !== 'websocket') {
-            return new Response('expected_websocket', { status: 426 });
+        const checkpoint = await this.state.storage.get<CheckpointInfo>(`${PrefixType.checkpointInfo}${data.content.id}`);
+        if (!checkpoint) {
+            this.sendError(webSocket, ErrorType.CHECKPOINT_NOT_FOUND, correlation);
+            return null;
         }
 
-        const [clientSocket, serverSocket] = Object.values(new WebSocketPair());
-        serverSocket.accept();
-        this.handleWebSocket(serverSocket);
+        try {
+            // 先读出目标检查点，再自动保存当前画板，避免自动检查点触发清理时删掉目标
+            const namespace = this.checkpointNamespace(checkpoint.id);
+            const snapshot = await this.state.storage.list({ prefix: namespace });
+            await this.createCheckpoint('auto_before_restore', userName, true);
+
+            const currentKeys = await this.listBoardKeys();
+
+            const entries = Array.from(snapshot, ([key, value]): [string, unknown] => [key.slice(namespace.length), value]);
+            await this.state.storage.transaction(async (txn) => {
+                for (let i = 0; i < currentKeys.length; i += Chat.STORAGE_BATCH_SIZE) {
+                    await txn.delete(currentKeys.slice(i, i + Chat.STORAGE_BATCH_SIZE));
+                }
+                for (let i = 0; i < entries.length; i += Chat.STORAGE_BATCH_SIZE) {
+                    await txn.put(Object.fromEntries(entries.slice(i, i + Chat.STORAGE_BATCH_SIZE)));
+                }
+            });
+        } catch (error) {
+            console.error('error_restoring_checkpoint', error);
+            this.sendError(webSocket, ErrorType.CHECKPOINT_FAILED, correlation);
+            return null;
+        }
 
-        return new Response(null, { status: 101, webSocket: clientSocket });
+        await this.resetBoardSession();
+        this.broadcast({
+            type: RealTimeCommand.restoreCheckpoint,
+            content: { checkpoint, userName }
+        });
+        this.sendSystemMessage(`${userName ?? ''}XXXrestored_checkpoint`);
+        await this.pushFullSnapshots();
+        return COMMAND_APPLIED;
     }
+
+    private async handleImportBoard(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.importBoard>, correlation: RequestCorrelation | undefined): Promise<CommandResult> {
+        const userId = this.getConnectionUserId(webSocket);
+        const userName = userId ? this.users.get(userId)?.userName ?? null : null;
+
+        try {
+            const result = await this.importBoard(data.content.bundle, data.content.mode ?? 'merge', userName);
+            this.sendMessage(webSocket, { type: RealTimeCommand.importBoard, content: result });
+            return COMMAND_APPLIED;
+        } catch (error) {
+            console.error('error_importing_board', error);
+            this.sendError(webSocket, ErrorType.IMPORT_FAILED, correlation);
+            return null;
+        }
+    }
+
+    // 导入画板：先自动保存检查点，replace 模式清空当前画板，然后按批次分事务写入，最后向所有连接重新下发全量数据
+    private async importBoard(bundle: BoardBundle, mode: ImportMode, userName: string | null): Promise<ImportBoardResult> {
+        const checkpoint = await this.createCheckpoint('auto_before_import', userName, true);
+
+        if (mode === 'replace') {
+            const keys = await this.listBoardKeys();
+            for (let i = 0; i < keys.length; i += Chat.STORAGE_BATCH_SIZE) {
+                await this.state.storage.delete(keys.slice(i, i + Chat.STORAGE_BATCH_SIZE));
+            }
+        }
+
+        // 同一 id 出现多次时以最后一条为准
+        const records = new Map<string, { prefix: HistoryEntry['prefix']; record: BoardBundleRecord }>();
+        for (const record of bundle.moveViews) {
+            records.set(`${PrefixType.moveView}${record.id}`, { prefix: PrefixType.moveView, record });
+        }
+        for (const record of bundle.drawings) {
+            records.set(`${PrefixType.drawing}${record.id}`, { prefix: PrefixType.drawing, record });
+        }
+
+        const entries = Array.from(records);
+        for (let i = 0; i < entries.length; i += Chat.IMPORT_RECORDS_PER_TRANSACTION) {
+            const slice = entries.slice(i, i + Chat.IMPORT_RECORDS_PER_TRANSACTION);
+            const existing = mode === 'merge'
+                ? await this.state.storage.get<StoredDrawing>(slice.map(([key]) => key))
+                : new Map<string, StoredDrawing>();
+
+            let puts: Record<string, unknown> = {};
+            let deletes: string[] = [];
+            for (const [key, { prefix, record }] of slice) {
+                const previous = existing.get(key);
+                const metadata: Metadata = {
+                    id: record.id,
+                    model: record.model,
+                    timestamp: record.timestamp,
+                    action: record.action,
+                    version: (previous?.version ?? 0) + 1
+                };
+                if (prefix === PrefixType.drawing) {
+                    const write = await this.prepareDrawingWrite(record.id, metadata, previous);
+                    puts = { ...puts, ...write.puts };
+                    deletes = deletes.concat(write.deletes);
+                } else {
+                    puts[key] = metadata;
+                }
+            }
+
+            const putEntries = Object.entries(puts);
+            await this.state.storage.transaction(async (txn) => {
+                for (let j = 0; j < putEntries.length; j += Chat.STORAGE_BATCH_SIZE) {
+                    await txn.put(Object.fromEntries(putEntries.slice(j, j + Chat.STORAGE_BATCH_SIZE)));
+                }
+                for (let j = 0; j < deletes.length; j += Chat.STORAGE_BATCH_SIZE) {
+                    await txn.delete(deletes.slice(j, j + Chat.STORAGE_BATCH_SIZE));
+                }
+            });
+        }
+
+        if (bundle.background !== null) {
+            await this.state.storage.put(BACKGROUND_STORAGE_KEY, bundle.background);
+        }
+
+        const result: ImportBoardResult = {
+            mode,
+            moveViews: bundle.moveViews.length,
+            drawings: bundle.drawings.length,
+            background: bundle.background !== null,
+            checkpointId: checkpoint.id
+        };
+
+        await this.resetBoardSession();
+        this.broadcast({
+            type: RealTimeCommand.importBoard,
+            content: { ...result, userName }
+        });
+        this.sendSystemMessage(`${userName ?? ''}XXXimported_board`);
+        await this.pushFullSnapshots();
+        console.log(`imported_board mode=${mode} moveViews=${result.moveViews} drawings=${result.drawings}`);
+        return result;
+    }
+
+    // 当前画板的全部存储 key（绘画、分片、移动层、背景）
+    private async listBoardKeys(): Promise<string[]> {
+        const keys: string[] = [BACKGROUND_STORAGE_KEY];
+        for (const prefix of BOARD_STORAGE_PREFIXES) {
+            keys.push(...(await this.state.storage.list({ prefix })).keys());
+        }
+        return keys;
+    }
+
+    // 画板被整体替换后：操作日志、撤销记录和锁都对应旧画板，全部作废；新的 syncId 让重连客户端改走全量同步
+    private async resetBoardSession() {
+        this.sequence = Chat.createRoomSequence();
+        await this.deleteByPrefix(PrefixType.operation);
+        await this.state.storage.put(ROOM_SEQUENCE_STORAGE_KEY, this.sequence);
+        this.histories.clear();
+        await this.deleteByPrefix(PrefixType.history);
+        this.objectLocks.clear();
+        this.discardCoalesced(isMoveViewQueueKey);
+    }
+
+    // 向所有已登录的连接重新下发全量 initSetup
+    private async pushFullSnapshots() {
+        for (const ws of this.state.getWebSockets()) {
+            const session = this.getConnectionSession(ws);
+            if (!session) continue;
+            try {
+                await this.sendFullSnapshot(ws, this.buildInitData(), session.protocolVersion ?? LEGACY_COLLAB_PROTOCOL_VERSION);
+            } catch (error) {
+                console.error('error_sending_full_snapshot', error);
+            }
+        }
+    }
+
+    private checkpointNamespace(id: string): string {
+        return `${PrefixType.checkpoint}${id}/`;
+    }
+
+    // 把当前画板（绘画、分片、移动层、背景）原样复制到检查点命名空间
+    private async createCheckpoint(name: string, createdBy: string | null, automatic: boolean): Promise<CheckpointInfo> {
+        // id 以时间戳开头，存储按 key 排序即为创建顺序
+        const id = `${String(Date.now()).padStart(15, '0')}-${crypto.randomUUID().slice(0, 8)}`;
+        const namespace = this.checkpointNamespace(id);
+        let recordCount = 0;
+
+        for (const prefix of BOARD_STORAGE_PREFIXES) {
+            let startAfter: string | undefined;
+            while (true) {
+                const page = await this.state.storage.list({ prefix, startAfter, limit: Chat.STORAGE_BATCH_SIZE });
+                if (page.size > 0) {
+                    const entries: Record<string, unknown> = {};
+                    for (const [key, value] of page) {
+                        entries[`${namespace}${key}`] = value;
+                        startAfter = key;
+                    }
+                    await this.state.storage.put(entries);
+                    if (prefix !== PrefixType.drawingPart) {
+                        recordCount += page.size;
+                    }
+                }
+                if (page.size < Chat.STORAGE_BATCH_SIZE) break;
+            }
+        }
+
+        const background = await this.state.storage.get(BACKGROUND_STORAGE_KEY);
+        if (background !== undefined) {
+            await this.state.storage.put(`${namespace}${BACKGROUND_STORAGE_KEY}`, background);
+        }
+
+        const checkpoint: CheckpointInfo = { id, name, createdAt: Date.now(), createdBy, automatic, recordCount };
+        await this.state.storage.put(`${PrefixType.checkpointInfo}${id}`, checkpoint);
+        await this.pruneCheckpoints();
+        console.log(`created_checkpoint:${id} automatic=${automatic} records=${recordCount}`);
+        return checkpoint;
+    }
+
+    // 按创建时间升序
+    private async listCheckpoints(): Promise<CheckpointInfo[]> {
+        const checkpoints = await this.state.storage.list<CheckpointInfo>({ prefix: PrefixType.checkpointInfo });
+        return Array.from(checkpoints.values());
+    }
+
+    // 手动与自动检查点分别按数量清理，各自删除最早的
+    private async pruneCheckpoints() {
+        const checkpoints = await this.listCheckpoints();
+        const manual = checkpoints.filter((checkpoint) => !checkpoint.automatic);
+        const automatic = checkpoints.filter((checkpoint) => checkpoint.automatic);
+        const expired = [
+            ...manual.slice(0, Math.max(0, manual.length - Chat.MAX_CHECKPOINTS)),
+            ...automatic.slice(0, Math.max(0, automatic.length - Chat.MAX_AUTOMATIC_CHECKPOINTS)),
+        ];
+        for (const checkpoint of expired) {
+            await this.deleteByPrefix(this.checkpointNamespace(checkpoint.id));
+            await this.state.storage.delete(`${PrefixType.checkpointInfo}${checkpoint.id}`);
+        }
+    }
+
+    // 处理在场信息：只保存在内存（主讲人视口除外），按用户合并转发，窗口内只发送最后一次
+    private handlePresence(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.presence>): CommandResult {
+        const userId = this.getConnectionUserId(webSocket);
+        const user = userId ? this.users.get(userId) : undefined;
+        if (!user) return null;
+
+        // 未携带的字段沿用上一次的值，null 表示清除
+        const { cursor, viewport, laser, tool } = data.content;
+        const previous = this.presences.get(user.userId);
+        const presence: PresenceState = {
+            userId: user.userId,
+            userName: user.userName,
+            cursor: cursor === undefined ? previous?.cursor : cursor ?? undefined,
+            viewport: viewport === undefined ? previous?.viewport : viewport ?? undefined,
+            laser: laser ?? previous?.laser,
+            tool: tool ?? previous?.tool,
+            updatedAt: Date.now()
+        };
+        this.presences.set(user.userId, presence);
+
+        // 主讲人的视口同步为房间的主讲视图，随 presence 一起转发
+        if (this.presenterView?.userId === user.userId && presence.viewport) {
+            this.presenterView.viewport = presence.viewport;
+            this.schedulePresenterViewPersist();
+        }
+
+        this.broadcastCoalesced(presenceQueueKey(user.userId), { type: RealTimeCommand.presence, content: presence }, webSocket);
+        return COMMAND_APPLIED;
+    }
+
+    // 跟随模式：开启时以主持人当前视口为主讲视图，所有非主持人成员默认跟随
+    private handleFollowMode(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.followMode>): CommandResult {
+        const userId = this.getConnectionUserId(webSocket);
+        const user = userId ? this.users.get(userId) : undefined;
+        if (!user) return null;
+
+        if (!data.content.enabled) {
+            // 未开启跟随模式时关闭是空操作，不回复 ack
+            return this.stopFollowMode() ? COMMAND_APPLIED : null;
+        }
+
+        this.presenterView = {
+            userId: user.userId,
+            userName: user.userName,
+            viewport: data.content.viewport ?? this.presences.get(user.userId)?.viewport,
+            startedAt: Date.now()
+        };
+        this.persistRoomMeta();
+
+        for (const member of this.users.values()) {
+            member.following = member.role === UserRole.HOST ? undefined : true;
+            this.saveUserSession(member);
+        }
+
+        this.broadcast({ type: RealTimeCommand.followMode, content: { enabled: true, presenterView: this.presenterView } });
+        this.broadcastUserList();
+        return COMMAND_APPLIED;
+    }
+
+    // 主讲人视口随 presence 高频变化，间隔内的多次变化合并为一次写入，对象驱逐后重连的成员仍能跟随到最新位置
+    private schedulePresenterViewPersist() {
+        if (this.presenterViewPersistTimer) return;
+        this.presenterViewPersistTimer = setTimeout(() => {
+            this.presenterViewPersistTimer = null;
+            this.persistRoomMeta();
+        }, Chat.PRESENTER_VIEW_PERSIST_MS);
+    }
+
+    private cancelPresenterViewPersist() {
+        if (!this.presenterViewPersistTimer) return;
+        clearTimeout(this.presenterViewPersistTimer);
+        this.presenterViewPersistTimer = null;
+    }
+
+    // 返回是否确实关闭了跟随模式
+    private stopFollowMode(): boolean {
+        if (!this.presenterView) return false;
+
+        this.presenterView = null;
+        this.persistRoomMeta();
+
+        for (const member of this.users.values()) {
+            if (member.following === undefined) continue;
+            member.following = undefined;
+            this.saveUserSession(member);
+        }
+
+        this.broadcast({ type: RealTimeCommand.followMode, content: { enabled: false } });
+        this.broadcastUserList();
+        return true;
+    }
+
+    private handleSetFollowing(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.setFollowing>): CommandResult {
+        const userId = this.getConnectionUserId(webSocket);
+        const user = userId ? this.users.get(userId) : undefined;
+        if (!user) return null;
+
+        // 没有主讲人或主讲人自己切换时不生效，不回复 ack
+        if (!this.presenterView || user.userId === this.presenterView.userId) return null;
+
+        user.following = data.content.following;
+        this.saveUserSession(user);
+        this.broadcastUserList();
+        return COMMAND_APPLIED;
+    }
+
+    // 清除通知使用同一合并 key，会替换掉尚未发出的在场更新
+    private clearPresence(userId: string) {
+        const presence = this.presences.get(userId);
+        if (!presence) return;
+
+        this.presences.delete(userId);
+        const cleared: PresenceState = { userId, userName: presence.userName, updatedAt: Date.now(), cleared: true };
+        this.broadcastCoalesced(presenceQueueKey(userId), { type: RealTimeCommand.presence, content: cleared });
+    }
+
+    // 取仍在租期内的锁，过期的锁在此顺带释放
+    private getActiveLock(id: string): ObjectLock | undefined {
+        const lock = this.objectLocks.get(id);
+        if (lock && lock.expiresAt <= Date.now()) {
+            this.objectLocks.delete(id);
+            this.broadcastUnlock(id);
+            return undefined;
+        }
+        return lock;
+    }
+
+    private getActiveLocks(): ObjectLock[] {
+        return Array.from(this.objectLocks.keys())
+            .map((id) => this.getActiveLock(id))
+            .filter((lock): lock is ObjectLock => lock !== undefined);
+    }
+
+    private isLockedByOther(id: string, userId: string): boolean {
+        const lock = this.getActiveLock(id);
+        return lock !== undefined && lock.userId !== userId;
+    }
+
+    // 申请或续约移动层锁，锁状态广播给所有人
+    private handleLockObject(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.lockObject>, correlation: RequestCorrelation | undefined): CommandResult {
+        const userId = this.getConnectionUserId(webSocket);
+        const user = userId ? this.users.get(userId) : undefined;
+        if (!user) return null;
+
+        const { id } = data.content;
+
+        if (this.isLockedByOther(id, user.userId)) {
+            this.sendError(webSocket, ErrorType.OBJECT_LOCKED, correlation);
+            return null;
+        }
+
+        const lock: ObjectLock = {
+            id,
+            userId: user.userId,
+            userName: user.userName,
+            expiresAt: Date.now() + Chat.OBJECT_LOCK_LEASE_MS
+        };
+        this.objectLocks.set(id, lock);
+        this.broadcast({ type: RealTimeCommand.lockObject, content: lock });
+        return COMMAND_APPLIED;
+    }
+
+    // 释放移动层锁：持有者本人或主持人可释放
+    private handleUnlockObject(webSocket: WebSocket, data: ClientMessageOf<RealTimeCommand.unlockObject>, correlation: RequestCorrelation | undefined): CommandResult {
+        const userId = this.getConnectionUserId(webSocket);
+        const user = userId ? this.users.get(userId) : undefined;
+        if (!user) return null;
+
+        // 锁不存在或已过期时没有可释放的锁，不回复 ack
+        const lock = this.getActiveLock(data.content.id);
+        if (!lock) return null;
+
+        if (lock.userId !== user.userId && user.role !== UserRole.HOST) {
+            this.sendError(webSocket, ErrorType.PERMISSION_DENIED, correlation);
+            return null;
+        }
+
+        this.objectLocks.delete(lock.id);
+        this.broadcastUnlock(lock.id);
+        return COMMAND_APPLIED;
+    }
+
+    private releaseUserLocks(userId: string) {
+        for (const lock of Array.from(this.objectLocks.values())) {
+            if (lock.userId !== userId) continue;
+            this.objectLocks.delete(lock.id);
+            this.broadcastUnlock(lock.id);
+        }
+    }
+
+    private broadcastUnlock(id: string) {
+        this.broadcast({ type: RealTimeCommand.unlockObject, content: { id } });
+    }
+
+    // 乐观并发校验：客户端携带 baseVersion 时必须等于当前版本，否则回传 conflict 与当前数据；
+    // 未携带 baseVersion 的旧客户端仍按到达顺序覆盖。写入成功后新版本为 baseVersion + 1
+    private rejectStaleWrite(
+        webSocket: WebSocket,
+        correlation: RequestCorrelation | undefined,
+        command: RealTimeCommand,
+        id: string,
+        baseVersion: number | null | undefined,
+        current: Metadata | null
+    ): boolean {
+        if (!isStaleWrite(baseVersion, current)) return false;
+
+        this.sendConflict(webSocket, correlation, command, id, current);
+        return true;
+    }
+
+    // 绘画记录按存储形式校验版本，只有需要回传 conflict 时才解压当前数据
+    private async rejectStaleDrawingWrite(
+        webSocket: WebSocket,
+        correlation: RequestCorrelation | undefined,
+        command: RealTimeCommand,
+        id: string,
+        baseVersion: number | null | undefined,
+        stored: StoredDrawing | null
+    ): Promise<boolean> {
+        if (!isStaleWrite(baseVersion, stored)) return false;
+
+        const current = stored ? await this.decodeDrawingRecord(id, stored) : null;
+        this.sendConflict(webSocket, correlation, command, id, current);
+        return true;
+    }
+
+    private sendConflict(
+        webSocket: WebSocket,
+        correlation: RequestCorrelation | undefined,
+        command: RealTimeCommand,
+        id: string,
+        current: Metadata | null
+    ) {
+        this.sendMessage(webSocket, {
+            type: RealTimeCommand.conflict,
+            content: { command, id, version: current?.version ?? 0, current },
+            ...correlation
+        });
+    }
+
+    // 记录用户的新操作，新操作会清空该用户的重做记录
+    private async pushHistory(userId: string, entry: HistoryEntry) {
+        const history = await this.loadHistory(userId);
+        const expected = toHistoryStamp(entry.expected);
+
+        // 拖动产生的连续更新接在上一步之后时只更新 expected，撤销直接回到拖动前
+        const last = history.undo[history.undo.length - 1];
+        if (
+            last && last.prefix === entry.prefix && last.id === entry.id &&
+            last.expected && entry.target && last.expected.seq === entry.target.seq &&
+            expected && expected.timestamp - last.expected.timestamp <= Chat.HISTORY_MERGE_WINDOW_MS
+        ) {
+            last.expected = expected;
+        } else {
+            history.undo.push({ ...entry, expected });
+            if (history.undo.length > Chat.USER_HISTORY_LIMIT) {
+                history.undo.shift();
+            }
+        }
+        history.redo = [];
+        await this.saveHistory(userId, history);
+    }
+
+    private async loadHistory(userId: string): Promise<UserHistory> {
+        let history = this.histories.get(userId);
+        if (!history) {
+            history = (await this.state.storage.get<UserHistory>(`${PrefixType.history}${userId}`)) ?? { undo: [], redo: [] };
+            this.histories.set(userId, history);
+        }
+        return history;
+    }
+
+    // 持久化用户的撤销记录：超过单值上限时从最早的记录开始丢弃，清空后删除存储键
+    private async saveHistory(userId: string, history: UserHistory) {
+        while (estimateHistoryBytes(history) > HISTORY_MAX_BYTES) {
+            if (history.undo.length > 0) {
+                history.undo.shift();
+            } else {
+                history.redo.shift();
+            }
+        }
+        this.histories.set(userId, history);
+
+        const storageKey = `${PrefixType.history}${userId}`;
+        if (history.undo.length === 0 && history.redo.length === 0) {
+            await this.state.storage.delete(storageKey);
+        } else {
+            await this.state.storage.put(storageKey, history);
+        }
+    }
+
+    // 丢弃所有用户（包括已离开的用户）某一类对象的撤销记录
+    private async dropHistory(prefix: HistoryEntry['prefix']) {
+        const stored = await this.state.storage.list<UserHistory>({ prefix: PrefixType.history });
+        for (const [key, history] of stored) {
+            await this.saveHistory(key.slice(PrefixType.history.length), {
+                undo: history.undo.filter((entry) => entry.prefix !== prefix),
+                redo: history.redo.filter((entry) => entry.prefix !== prefix),
+            });
+        }
+    }
+
+    // 撤销/重做：只回退该用户自己的操作；对象已被他人再次修改的记录直接丢弃
+    private async handleHistoryStep(webSocket: WebSocket, direction: 'undo' | 'redo', correlation: RequestCorrelation | undefined): Promise<CommandResult> {
+        const userId = this.getConnectionUserId(webSocket);
+        if (!userId) return null;
+
+        if (this.drawingLimiter.isRateLimited(userId)) {
+            this.sendError(webSocket, ErrorType.RATE_LIMITED, correlation);
+            return null;
+        }
+
+        const history = await this.loadHistory(userId);
+        const source = direction === 'undo' ? history.undo : history.redo;
+        const destination = direction === 'undo' ? history.redo : history.undo;
+
+        while (source.length > 0) {
+            const entry = source.pop()!;
+            if (entry.prefix === PrefixType.moveView && this.isLockedByOther(entry.id, userId)) {
+                source.push(entry);
+                await this.saveHistory(userId, history);
+                this.sendError(webSocket, ErrorType.OBJECT_LOCKED, correlation);
+                return null;
+            }
+
+            // 压缩保存的目标先解压，再读取当前记录做校验
+            const target = entry.prefix === PrefixType.drawing && entry.target
+                ? await this.decodeDrawingRecord(entry.id, entry.target)
+                : entry.target as Metadata | null;
+            const current = await this.loadBoardRecord(entry.prefix, entry.id);
+            if ((current?.seq ?? null) !== (entry.expected?.seq ?? null) || (current === null) !== (entry.expected === null)) {
+                continue;
+            }
+
+            const { written, seq } = await this.applyHistoryTarget(entry, target, current);
+            destination.push({ prefix: entry.prefix, id: entry.id, expected: toHistoryStamp(written), target: current });
+            await this.saveHistory(userId, history);
+            return { seq };
+        }
+
+        await this.saveHistory(userId, history);
+        this.sendError(webSocket, direction === 'undo' ? ErrorType.NOTHING_TO_UNDO : ErrorType.NOTHING_TO_REDO, correlation);
+        return null;
+    }
+
+    // 写回撤销/重做的目标状态并广播给所有人（包括发起者），返回写入后的记录与本次操作的序号
+    private async applyHistoryTarget(entry: HistoryEntry, target: Metadata | null, current: Metadata | null): Promise<{ written: Metadata | null; seq?: number }> {
+        const storageKey = `${entry.prefix}${entry.id}`;
+        const { id } = entry;
+        const version = (current?.version ?? 0) + 1;
+
+        if (entry.prefix === PrefixType.moveView) {
+            this.discardCoalesced((key) => key === moveViewQueueKey(id));
+            if (!target) {
+                await this.state.storage.delete(storageKey);
+                const seq = this.recordOperation(RealTimeCommand.deleteMoveView, { id });
+                this.broadcast({ type: RealTimeCommand.deleteMoveView, content: { id }, seq });
+                return { written: null, seq };
+            }
+
+            const content = { id, model: target.model };
+            const seq = this.recordOperation(RealTimeCommand.updateMoveView, content, version);
+            const written: Metadata = { ...target, timestamp: Date.now(), seq, version };
+            await this.state.storage.put(storageKey, written);
+            this.broadcast({ type: RealTimeCommand.updateMoveView, content, seq, version });
+            return { written, seq };
+        }
+
+        // 绘画记录：撤销新增的笔迹等同于该用户自己删除它，按客户端已有的 removeStrokes 动作写入并广播
+        const restored = target ?? (current ? { ...current, action: 'removeStrokes' as const } : null);
+        if (!restored) return { written: null };
+
+        const content = { id, action: restored.action ?? 'addStrokes', model: restored.model };
+        const seq = this.recordOperation(RealTimeCommand.drawingUpdate, content, version);
+        const written: Metadata = { ...restored, timestamp: Date.now(), seq, version };
+        await this.writeBoardRecord(PrefixType.drawing, id, written);
+        this.broadcast({ type: RealTimeCommand.drawingUpdate, content, seq, version });
+        return { written, seq };
+    }
+
+    // 读取移动层或绘画记录，绘画记录会还原压缩/分片存储的 model
+    private async loadBoardRecord(prefix: HistoryEntry['prefix'], id: string): Promise<Metadata | null> {
+        const record = await this.state.storage.get<StoredDrawing>(`${prefix}${id}`);
+        if (!record) return null;
+        return prefix === PrefixType.drawing ? this.decodeDrawingRecord(id, record) : record as Metadata;
+    }
+
+    // 写入移动层或绘画记录，metadata 为 null 时删除；put 与 delete 之间不 await，由存储合并为一次原子写入
+    private async writeBoardRecord(prefix: HistoryEntry['prefix'], id: string, metadata: Metadata | null) {
+        const storageKey = `${prefix}${id}`;
+        if (prefix === PrefixType.moveView) {
+            await (metadata ? this.state.storage.put(storageKey, metadata) : this.state.storage.delete(storageKey));
+            return;
+        }
+
+        const existing = await this.state.storage.get<StoredDrawing>(storageKey);
+        const { puts, deletes } = await this.prepareDrawingWrite(id, metadata, existing);
+        await this.commitWrites(puts, deletes);
+    }
+
+    // put 与 delete 之间不 await，由存储合并为一次原子写入
+    private async commitWrites(puts: Record<string, unknown>, deletes: string[]) {
+        const writes: Promise<unknown>[] = [];
+        if (Object.keys(puts).length > 0) {
+            writes.push(this.state.storage.put(puts));
+        }
+        if (deletes.length > 0) {
+            writes.push(this.state.storage.delete(deletes));
+        }
+        await Promise.all(writes);
+    }
+
+    // 计算写入一条绘画记录所需的键值，并清理旧记录多出来的分片
+    private async prepareDrawingWrite(
+        id: string,
+        metadata: Metadata | null,
+        existing: StoredDrawing | null | undefined
+    ): Promise<{ puts: Record<string, unknown>; deletes: string[] }> {
+        const encoded = metadata ? await encodeDrawingModel(metadata.model) : null;
+        return drawingWrites(id, metadata, encoded, existing);
+    }
+
+    // 读取绘画记录的存储形式，分片合并进 compressedModel；只有存储操作，不解压
+    private async readStoredDrawing(id: string): Promise<StoredDrawing | null> {
+        const record = await this.state.storage.get<StoredDrawing>(`${PrefixType.drawing}${id}`);
+        return record ? this.loadDrawingParts(id, record) : null;
+    }
+
+    private async loadDrawingParts(id: string, record: StoredDrawing): Promise<StoredDrawing> {
+        if (typeof record.model === 'string' || record.compressedModel || !record.modelParts) return record;
+
+        const keys = Array.from({ length: record.modelParts }, (_, index) => drawingPartKey(id, index));
+        const parts = await this.state.storage.get<Uint8Array>(keys);
+        const chunks = keys.map((key) => parts.get(key));
+        if (chunks.some((chunk) => !chunk)) {
+            throw new Error(`missing_drawing_parts:${id}`);
+        }
+        return { ...record, compressedModel: concatBytes(chunks as Uint8Array[]) };
+    }
+
+    private async decodeDrawingRecord(id: string, record: StoredDrawing): Promise<Metadata> {
+        const { model, compressedModel, modelParts, ...rest } = await this.loadDrawingParts(id, record);
+        if (typeof model === 'string') return { ...rest, model };
+        return { ...rest, model: await decompressText(compressedModel ?? new Uint8Array()) };
+    }
+
+    // 一次性迁移：旧格式中未压缩的大 model 改写为压缩存储，完成后记录格式版本
+    private async migrateDrawingStorage() {
+        const format = (await this.state.storage.get<number>(STORAGE_FORMAT_STORAGE_KEY)) ?? 1;
+        if (format >= DRAWING_STORAGE_FORMAT) return;
+
+        let migrated = 0;
+        let startAfter: string | undefined;
+        while (true) {
+            const page = await this.state.storage.list<StoredDrawing>({
+                prefix: PrefixType.drawing,
+                startAfter,
+                limit: Chat.SNAPSHOT_LIST_PAGE_SIZE
+            });
+
+            for (const [key, record] of page) {
+                startAfter = key;
+                if (typeof record.model !== 'string' || record.model.length <= MODEL_COMPRESSION_THRESHOLD) continue;
+
+                const { puts } = await this.prepareDrawingWrite(key.slice(PrefixType.drawing.length), record as Metadata, record);
+                await this.state.storage.put(puts);
+                migrated += 1;
+            }
+
+            if (page.size < Chat.SNAPSHOT_LIST_PAGE_SIZE) break;
+        }
+
+        await this.state.storage.put(STORAGE_FORMAT_STORAGE_KEY, DRAWING_STORAGE_FORMAT);
+        console.log(`migrated_drawing_records:${migrated}`);
+    }
+
+    // 按前缀删除存储记录（storage.delete 单次最多 128 个 key）
+    private async deleteByPrefix(prefix: string) {
+        const keys = Array.from((await this.state.storage.list({ prefix })).keys());
+        for (let i = 0; i < keys.length; i += 128) {
+            await this.state.storage.delete(keys.slice(i, i + 128));
+        }
+    }
+
+    // 清空所有
+    private handleClear(): CommandResult {
+        const seq = this.recordOperation(RealTimeCommand.clear);
+        const payload = { type: RealTimeCommand.clear, seq };
+        this.discardCoalesced(isMoveViewQueueKey);
+        this.broadcast(payload);
+        return { seq };
+    }
+
+    // 广播消息给所有连接者
+    // 不会先发出待合并的更新；会使其失效的广播由调用方先 discardCoalesced
+    private broadcast(message: object, exclude?: WebSocket) {
+        const outbound = new OutboundMessage(message);
+        for (const ws of this.state.getWebSockets()) {
+            if (ws === exclude) continue;
+            this.sendOutbound(ws, outbound);
+        }
+    }
+
+    // 批量操作合并为一个 batch 帧转发；不认识 batch 命令的旧客户端按原命令逐条下发
+    private broadcastBatch(operations: object[], exclude?: WebSocket) {
+        const batchMessage = new OutboundMessage({ type: RealTimeCommand.batch, content: { operations } });
+        const singleMessages = operations.map((operation) => new OutboundMessage(operation));
+        for (const ws of this.state.getWebSockets()) {
+            if (ws === exclude) continue;
+            const protocolVersion = this.getConnectionSession(ws)?.protocolVersion ?? LEGACY_COLLAB_PROTOCOL_VERSION;
+            if (protocolVersion >= BATCH_RELAY_PROTOCOL_VERSION) {
+                this.sendOutbound(ws, batchMessage);
+            } else {
+                for (const message of singleMessages) {
+                    this.sendOutbound(ws, message);
+                }
+            }
+        }
+    }
+
+    // 高频更新放入每个连接的待发队列，同一 key 只保留最新一条，在下一个合并窗口统一发送
+    private broadcastCoalesced(key: string, message: object, exclude?: WebSocket) {
+        const outbound = new OutboundMessage(message);
+        for (const ws of this.state.getWebSockets()) {
+            if (ws === exclude) continue;
+            const queue = this.outboundQueues.get(ws) ?? new Map<string, OutboundMessage>();
+            // 先删除再插入，使发送顺序跟随最新一次更新
+            queue.delete(key);
+            queue.set(key, outbound);
+            this.outboundQueues.set(ws, queue);
+        }
+        this.scheduleOutboundFlush();
+    }
+
+    private scheduleOutboundFlush() {
+        if (this.outboundFlushTimer || this.outboundQueues.size === 0) return;
+        this.outboundFlushTimer = setTimeout(() => {
+            this.outboundFlushTimer = null;
+            this.flushOutbound();
+        }, Chat.OUTBOUND_FRAME_MS);
+    }
+
+    // 跳过积压的连接，其队列留到下个窗口继续合并
+    private flushOutbound() {
+        for (const [ws, queue] of this.outboundQueues) {
+            if (this.isOutboundBackedUp(ws)) continue;
+            this.outboundQueues.delete(ws);
+            for (const message of queue.values()) {
+                this.sendOutbound(ws, message);
+            }
+        }
+        this.scheduleOutboundFlush();
+    }
+
+    // 丢弃被即将发送的广播取代的待发更新（如对象被删除、画板被清空），避免旧位置晚于新状态到达
+    private discardCoalesced(matches: (key: string) => boolean) {
+        for (const [ws, queue] of this.outboundQueues) {
+            for (const key of queue.keys()) {
+                if (matches(key)) queue.delete(key);
+            }
+            if (queue.size === 0) this.outboundQueues.delete(ws);
+        }
+    }
+
+    // Workers 的 WebSocket 不提供 bufferedAmount，按连接在统计窗口内已发送的字节数估算是否积压
+    private isOutboundBackedUp(ws: WebSocket): boolean {
+        const usage = this.outboundUsage.get(ws);
+        if (!usage || Date.now() - usage.windowStart >= Chat.OUTBOUND_BUDGET_WINDOW_MS) return false;
+        return usage.bytes >= Chat.OUTBOUND_SOCKET_BUDGET_BYTES;
+    }
+
+    // 按连接协商的编码发送；同一条广播对每种编码只序列化一次
+    private sendOutbound(ws: WebSocket, message: OutboundMessage) {
+        let frame: string | Uint8Array;
+        try {
+            frame = message.frame(this.getConnectionEncoding(ws));
+            ws.send(frame);
+        } catch (error) {
+            // 连接可能正在关闭，跳过即可
+            console.error('error_broadcasting_message', error);
+            return;
+        }
+
+        const now = Date.now();
+        const usage = this.outboundUsage.get(ws);
+        if (!usage || now - usage.windowStart >= Chat.OUTBOUND_BUDGET_WINDOW_MS) {
+            this.outboundUsage.set(ws, { bytes: frame.length, windowStart: now });
+        } else {
+            usage.bytes += frame.length;
+        }
+    }
+
+    // 单播消息，按连接协商的编码序列化
+    private sendMessage(webSocket: WebSocket, message: object) {
+        webSocket.send(encodeWireMessage(message, this.getConnectionEncoding(webSocket)));
+    }
+
+    // 发送系统消息
+    private sendSystemMessage(content: string) {
+        const message: ChatMessage = {
+            id: crypto.randomUUID(),
+            userId: 'system',
+            userName: 'System',
+            content,
+            timestamp: Date.now(),
+            messageType: MessageType.SYSTEM,
+        };
+
+        this.appendChatMessage(message);
+
+        const payload = { type: RealTimeCommand.chat, content: message };
+        this.broadcast(payload);
+    }
+
+    // 添加一个用于发送错误消息的辅助函数
+    // content 保持为 ErrorType 字符串以兼容旧客户端，关联信息放在同级字段
+    private sendError(webSocket: WebSocket, errorType: ErrorType, correlation?: RequestCorrelation) {
+        this.sendMessage(webSocket, {
+            type: RealTimeCommand.error,
+            content: errorType,
+            ...correlation
+        });
+    }
+
+    private sendAck(webSocket: WebSocket, correlation: RequestCorrelation, content: AckContent) {
+        try {
+            this.sendMessage(webSocket, {
+                type: RealTimeCommand.ack,
+                content,
+                ...correlation
+            });
+        } catch (error) {
+            // 命令本身可能已关闭该连接（如关闭房间、被移出）
+            console.warn('failed_send_ack', error);
+        }
+    }
+
+    // 广播用户列表
+    private broadcastUserList() {
+        const userList = Array.from(this.users.values());
+        const payload = { type: RealTimeCommand.userList, content: userList };
+        this.broadcast(payload);
+    }
+
+    // HTTP 接口请求，由 Worker 按 /api/rooms/:room/:action 转发
+    private async handleApiRequest(request: Request, url: URL, action: string): Promise<Response> {
+        if (action === 'export' && request.method === 'GET') {
+            return this.handleExportRequest(request, url);
+        }
+        if (action === 'import' && request.method === 'POST') {
+            return this.handleImportRequest(request, url);
+        }
+        if (action === 'status' && request.method === 'GET') {
+            return Response.json(this.getRoomStatus(), { headers: { 'Cache-Control': 'no-store' } });
+        }
+        return new Response('not_found', { status: 404 });
+    }
+
+    // 检查房间是否存在：在线用户存在，或处于空房间宽限期，或已有房间协议版本
+    private hasActiveRoom(): boolean {
+        return this.users.size > 0 ||
+            this.pendingCleanupAt !== null ||
+            this.roomMinProtocolVersion !== null;
+    }
+
+    // 房间状态只读查询，不改动房间，也不触发清理
+    private getRoomStatus(): RoomStatus {
+        const closed = this.isRoomClosed;
+        return {
+            exists: !closed && this.hasActiveRoom(),
+            closed,
+            participants: this.users.size,
+            pendingCleanupAt: this.pendingCleanupAt,
+            roomMinProtocolVersion: this.roomMinProtocolVersion,
+            fileName: this.fileName,
+        };
+    }
+
+    // 导入画板：请求体为导出包 JSON，?mode=replace|merge（默认 merge），需要主持人令牌
+    private async handleImportRequest(request: Request, url: URL): Promise<Response> {
+        const role = await this.resolveRequestRole(request, url);
+        if (!role) {
+            return new Response(ErrorType.INVALID_TOKEN, { status: 401 });
+        }
+        if (role !== UserRole.HOST) {
+            return new Response(ErrorType.PERMISSION_DENIED, { status: 403 });
+        }
+
+        const mode = url.searchParams.get('mode') ?? 'merge';
+        if (!IMPORT_MODES.includes(mode as ImportMode)) {
+            return new Response(ErrorType.INVALID_IMPORT_MODE, { status: 400 });
+        }
+
+        let raw: unknown;
+        try {
+            raw = await request.json();
+        } catch {
+            return new Response(ErrorType.INVALID_JSON, { status: 400 });
+        }
+
+        const bundle = parseBoardBundle(raw);
+        if (!bundle.ok) {
+            return new Response(bundle.error, { status: bundle.error === ErrorType.BUNDLE_TOO_LARGE ? 413 : 400 });
+        }
+
+        try {
+            const result = await this.importBoard(bundle.value, mode as ImportMode, null);
+            return Response.json(result);
+        } catch (error) {
+            console.error('error_importing_board', error);
+            return new Response(ErrorType.IMPORT_FAILED, { status: 500 });
+        }
+    }
+
+    // 令牌可放在 Authorization: Bearer 头或 ?token= 参数中
+    private async resolveRequestRole(request: Request, url: URL): Promise<UserRole | null> {
+        const authorization = request.headers.get('Authorization');
+        const token = authorization?.startsWith('Bearer ')
+            ? authorization.slice('Bearer '.length)
+            : url.searchParams.get('token');
+        return this.resolveTokenRole(token);
+    }
+
+    // 导出画板：format=json 返回版本化的导出包，format=svg 返回服务端渲染的线条图；任意有效的房间令牌均可导出
+    private async handleExportRequest(request: Request, url: URL): Promise<Response> {
+        if (!await this.resolveRequestRole(request, url)) {
+            return new Response(ErrorType.INVALID_TOKEN, { status: 401 });
+        }
+
+        const format = url.searchParams.get('format') ?? 'json';
+        if (format !== 'json' && format !== 'svg') {
+            return new Response('unsupported_format', { status: 400 });
+        }
+
+        const bundle = await this.buildBoardBundle();
+        const fileName = `${this.fileName ?? 'board'}.${format}`;
+        const headers = {
+            'Content-Type': format === 'json' ? 'application/json; charset=utf-8' : 'image/svg+xml; charset=utf-8',
+            'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+            'Cache-Control': 'no-store',
+        };
+        const body = format === 'json' ? JSON.stringify(bundle) : renderBoardSvg(bundle);
+        return new Response(body, { headers });
+    }
+
+    private async buildBoardBundle(): Promise<BoardBundle> {
+        const toBundleRecord = ({ id, model, timestamp, action, version }: Metadata): BoardBundleRecord =>
+            ({ id, model, timestamp, action, version });
+
+        const moveViews = await this.state.storage.list<Metadata>({ prefix: PrefixType.moveView });
+        const drawings = await this.state.storage.list<StoredDrawing>({ prefix: PrefixType.drawing });
+        const decodedDrawings = await Promise.all(Array.from(drawings, ([key, record]) =>
+            this.decodeDrawingRecord(key.slice(PrefixType.drawing.length), record)));
+
+        return {
+            format: BOARD_BUNDLE_FORMAT,
+            version: BOARD_BUNDLE_VERSION,
+            exportedAt: Date.now(),
+            fileName: this.fileName,
+            background: (await this.state.storage.get(BACKGROUND_STORAGE_KEY)) ?? null,
+            moveViews: Array.from(moveViews.values(), toBundleRecord),
+            drawings: decodedDrawings.map(toBundleRecord),
+        };
+    }
+
+    // 处理 fetch 请求
+    async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url);
+        const apiMatch = url.pathname.match(ROOM_API_PATH);
+        if (apiMatch) {
+            return this.handleApiRequest(request, url, apiMatch[2]);
+        }
+
+        if (request.headers.get('Upgrade') !== 'websocket') {
+            return new Response('expected_websocket', { status: 426 });
+        }
+
+        const [clientSocket, serverSocket] = Object.values(new WebSocketPair());
+        // 使用休眠 API 接管连接：空闲时对象可被驱逐，会话保存在连接附件中
+        this.state.acceptWebSocket(serverSocket);
+
+        return new Response(null, { status: 101, webSocket: clientSocket });
+    }
+}
+
+// 邀请码登记记录：revokedAt 非空表示已撤销，closedByHost 表示因主持人关房而撤销；
+// 过期或撤销的记录保留一段时间，以便返回明确的错误且不被立即复用
+interface InviteRecord {
+    roomId: string;
+    createdAt: number;
+    expiresAt: number;
+    revokedAt: number | null;
+    closedByHost?: boolean;
+}
+
+const generateInviteCode = customAlphabet(INVITE_CODE_ALPHABET, INVITE_CODE_LENGTH);
+
+// 邀请码登记：每个邀请码一个实例（按码 idFromName），只保存该码指向的房间 id；
+// 房间当前使用哪个码记录在房间自己的 inviteCode 中，加入请求只访问对应码的实例，不会集中到同一个对象
+export class InviteRegistry {
+
+    private static readonly DEFAULT_INVITE_CODE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 邀请码默认闲置 7 天后过期
+    private static readonly RECORD_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // 失效记录保留 30 天
+
+    constructor(private state: DurableObjectState, private env: Env) {}
+
+    async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url);
+        const action = url.pathname.slice(1);
+
+        if (action === 'resolve' && request.method === 'GET') {
+            return this.resolve(url.searchParams.get('extend') === '1');
+        }
+        if (request.method !== 'POST') {
+            return new Response('not_found', { status: 404 });
+        }
+
+        let roomId: unknown;
+        try {
+            roomId = (await request.json<{ roomId?: unknown }>()).roomId;
+        } catch {
+            return new Response(ErrorType.INVALID_JSON, { status: 400 });
+        }
+        if (typeof roomId !== 'string' || roomId.length === 0) {
+            return new Response('invalid_room_id', { status: 400 });
+        }
+
+        switch (action) {
+            case 'claim':
+                return this.claim(roomId);
+            case 'extend':
+                return this.extend(roomId);
+            case 'revoke':
+                await this.revoke(roomId);
+                return new Response(null, { status: 204 });
+            case 'close':
+                await this.revoke(roomId, true);
+                return new Response(null, { status: 204 });
+            default:
+                return new Response('not_found', { status: 404 });
+        }
+    }
+
+    // 邀请码解析为房间 id；extend 为 true（加入或重连）时顺延有效期，只读查询不影响过期
+    private async resolve(extend: boolean): Promise<Response> {
+        const record = await this.state.storage.get<InviteRecord>(INVITE_RECORD_STORAGE_KEY);
+        if (!record) {
+            return new Response(ErrorType.UNKNOWN_INVITE_CODE, { status: 404 });
+        }
+        const invalid = this.checkRecord(record);
+        if (invalid) return invalid;
+
+        if (extend) {
+            await this.state.storage.put(INVITE_RECORD_STORAGE_KEY, { ...record, expiresAt: Date.now() + this.getTtl() });
+        }
+        return Response.json({ roomId: record.roomId });
+    }
+
+    // 房间领取新生成的码；码已被占用（包括保留期内的失效记录）时返回 409，由房间重新生成
+    private async claim(roomId: string): Promise<Response> {
+        if (await this.state.storage.get(INVITE_RECORD_STORAGE_KEY)) {
+            return new Response('invite_code_taken', { status: 409 });
+        }
+
+        const now = Date.now();
+        const record: InviteRecord = { roomId, createdAt: now, expiresAt: now + this.getTtl(), revokedAt: null };
+        await this.state.storage.put(INVITE_RECORD_STORAGE_KEY, record);
+        await this.scheduleSweep(record);
+        return Response.json({ expiresAt: record.expiresAt });
+    }
+
+    // 房间重连时顺延自己的码；码已失效或不属于该房间时返回错误，由房间换发新码
+    private async extend(roomId: string): Promise<Response> {
+        const record = await this.state.storage.get<InviteRecord>(INVITE_RECORD_STORAGE_KEY);
+        if (!record || record.roomId !== roomId) {
+            return new Response(ErrorType.UNKNOWN_INVITE_CODE, { status: 404 });
+        }
+        const invalid = this.checkRecord(record);
+        if (invalid) return invalid;
+
+        const expiresAt = Date.now() + this.getTtl();
+        await this.state.storage.put(INVITE_RECORD_STORAGE_KEY, { ...record, expiresAt });
+        return Response.json({ expiresAt });
+    }
+
+    private async revoke(roomId: string, closedByHost: boolean = false) {
+        const record = await this.state.storage.get<InviteRecord>(INVITE_RECORD_STORAGE_KEY);
+        if (!record || record.roomId !== roomId || record.revokedAt !== null) return;
+
+        const revoked: InviteRecord = { ...record, revokedAt: Date.now(), closedByHost };
+        await this.state.storage.put(INVITE_RECORD_STORAGE_KEY, revoked);
+        await this.scheduleSweep(revoked);
+    }
+
+    // 已撤销或已过期的记录返回对应的 410 错误，有效记录返回 null
+    private checkRecord(record: InviteRecord): Response | null {
+        if (record.revokedAt !== null) {
+            return new Response(record.closedByHost ? ErrorType.ROOM_IS_CLOSED : ErrorType.INVITE_CODE_REVOKED, { status: 410 });
+        }
+        if (record.expiresAt <= Date.now()) {
+            return new Response(ErrorType.INVITE_CODE_EXPIRED, { status: 410 });
+        }
+        return null;
+    }
+
+    private getTtl(): number {
+        const configured = Number(this.env.INVITE_CODE_TTL_MS);
+        return Number.isFinite(configured) && configured > 0 ? configured : InviteRegistry.DEFAULT_INVITE_CODE_TTL_MS;
+    }
+
+    private async scheduleSweep(record: InviteRecord) {
+        await this.state.storage.setAlarm((record.revokedAt ?? record.expiresAt) + InviteRegistry.RECORD_RETENTION_MS);
+    }
+
+    // 记录失效满保留期后清空；有效期被顺延过时按新的失效时间重新设置闹钟。
+    // 没有记录的实例（包括分片前的全局登记对象）直接清空
+    async alarm() {
+        const record = await this.state.storage.get<InviteRecord>(INVITE_RECORD_STORAGE_KEY);
+        const sweepAt = record ? (record.revokedAt ?? record.expiresAt) + InviteRegistry.RECORD_RETENTION_MS : 0;
+        if (sweepAt > Date.now()) {
+            await this.state.storage.setAlarm(sweepAt);
+            return;
+        }
+
+        await this.state.storage.deleteAll();
+        console.log('invite_registry_swept');
+    }
+}
+
+function getInviteRegistry(env: Env, code: string): DurableObjectStub {
+    return env.InviteRegistry.get(env.InviteRegistry.idFromName(code));
+}
+
+// 邀请码不区分大小写，长度或字符不合法时不访问登记对象
+function normalizeInviteCode(rawCode: string): string | null {
+    const code = rawCode.trim().toUpperCase();
+    if (code.length !== INVITE_CODE_LENGTH) return null;
+    return Array.from(code).every((char) => INVITE_CODE_ALPHABET.includes(char)) ? code : null;
+}
+
+// 邀请码解析为房间对象 id；未知、过期或已撤销的邀请码返回登记对象给出的 HTTP 错误。
+// 只有 WebSocket 加入或重连传 extend，状态查询、导出等 HTTP 接口不延长邀请码有效期
+async function resolveInviteRoom(env: Env, rawCode: string, extend: boolean): Promise<DurableObjectId | Response> {
+    const code = normalizeInviteCode(rawCode);
+    if (!code) {
+        return new Response(ErrorType.UNKNOWN_INVITE_CODE, { status: 404 });
+    }
+
+    const response = await getInviteRegistry(env, code).fetch(
+        `${INVITE_REGISTRY_ORIGIN}/resolve${extend ? '?extend=1' : ''}`
+    );
+    if (!response.ok) {
+        return new Response(await response.text(), { status: response.status });
+    }
+    const { roomId } = await response.json<{ roomId: string }>();
+    return env.WhiteboardRealTime.idFromString(roomId);
+}
+
+
+interface SvgStroke {
+    points: PresencePoint[];
+    color: string;
+    width: number;
+}
+
+function parsePoint(value: unknown): PresencePoint | null {
+    if (Array.isArray(value) && Number.isFinite(value[0]) && Number.isFinite(value[1])) {
+        return { x: value[0], y: value[1] };
+    }
+    const point = value as { x?: unknown; y?: unknown } | null;
+    if (point && typeof point.x === 'number' && typeof point.y === 'number' && Number.isFinite(point.x) && Number.isFinite(point.y)) {
+        return { x: point.x, y: point.y };
+    }
+    return null;
+}
+
+// 只接受十六进制或 rgb()/rgba() 颜色，避免把任意字符串写进 SVG 属性
+function parseColor(value: unknown): string {
+    if (typeof value === 'string' && /^(#[0-9a-f]{3,8}|rgba?\([\d\s.,%]+\))$/i.test(value)) return value;
+    return '#000000';
+}
+
+// model 是客户端自定义的 JSON 字符串，这里只识别 { points } 或 { strokes: [{ points }] } 形式的线条，其余跳过
+function extractStrokes(model: string): SvgStroke[] {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(model);
+    } catch {
+        return [];
+    }
+
+    const candidates: any[] = Array.isArray(parsed?.strokes) ? parsed.strokes : [parsed];
+    const strokes: SvgStroke[] = [];
+    for (const candidate of candidates) {
+        if (!Array.isArray(candidate?.points)) continue;
+        const points = candidate.points.map(parsePoint).filter((point: PresencePoint | null): point is PresencePoint => point !== null);
+        if (points.length === 0) continue;
+
+        const width = Number(candidate.width ?? candidate.lineWidth);
+        strokes.push({
+            points,
+            color: parseColor(candidate.color),
+            width: Number.isFinite(width) && width > 0 ? width : 2,
+        });
+    }
+    return strokes;
+}
+
+function renderBoardSvg(bundle: BoardBundle): string {
+    const strokes = bundle.drawings.flatMap((record) => extractStrokes(record.model));
+
+    // 点数可能很多，用循环求边界而不是展开参数
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const stroke of strokes) {
+        for (const point of stroke.points) {
+            minX = Math.min(minX, point.x);
+            minY = Math.min(minY, point.y);
+            maxX = Math.max(maxX, point.x);
+            maxY = Math.max(maxY, point.y);
+        }
+    }
+    const padding = 10;
+    if (minX === Infinity) {
+        minX = minY = 0;
+        maxX = maxY = 100;
+    } else {
+        minX -= padding;
+        minY -= padding;
+        maxX += padding;
+        maxY += padding;
+    }
+    const width = maxX - minX;
+    const height = maxY - minY;
+
+    const background = (bundle.background as { color?: unknown } | null)?.color;
+    const paths = strokes.map((stroke) => {
+        const d = stroke.points.map((point, index) => `${index === 0 ? 'M' : 'L'}${point.x} ${point.y}`).join(' ');
+        return `<path d="${d}" fill="none" stroke="${stroke.color}" stroke-width="${stroke.width}" stroke-linecap="round" stroke-linejoin="round"/>`;
+    });
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${minX} ${minY} ${width} ${height}" width="${width}" height="${height}">`,
+        background !== undefined ? `<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="${parseColor(background)}"/>` : '',
+        ...paths,
+        '</svg>',
+    ].filter((line) => line.length > 0).join('\n');
+}
+
+function toHistoryStamp(record: HistoryStamp | null): HistoryStamp | null {
+    return record ? { seq: record.seq, timestamp: record.timestamp } : null;
+}
+
+// 估算撤销记录的存储大小：model 按每字符 2 字节、压缩数据按实际字节计，其余字段按固定开销计
+function estimateHistoryBytes(history: UserHistory): number {
+    let bytes = 0;
+    for (const entry of [...history.undo, ...history.redo]) {
+        const target = entry.target as StoredDrawing | null;
+        bytes += HISTORY_ENTRY_OVERHEAD_BYTES + (target?.model?.length ?? 0) * 2 + (target?.compressedModel?.byteLength ?? 0);
+    }
+    return bytes;
+}
+
+function createTokenEpoch(): string {
+    return crypto.randomUUID().replace(/-/g, '');
 }
 
+function isStaleWrite(baseVersion: number | null | undefined, current: { version?: number } | null): boolean {
+    if (baseVersion === undefined || baseVersion === null) return false;
+    return baseVersion !== (current?.version ?? 0);
+}
+
+function drawingPartKey(id: string, index: number): string {
+    return `${PrefixType.drawingPart}${id}:${index}`;
+}
+
+// 合并发送队列的 key：移动层按对象、在场信息按用户
+function moveViewQueueKey(id: string): string {
+    return `${PrefixType.moveView}${id}`;
+}
+
+function presenceQueueKey(userId: string): string {
+    return `presence:${userId}`;
+}
+
+function isMoveViewQueueKey(key: string): boolean {
+    return key.startsWith(PrefixType.moveView);
+}
+
+// 小 model 原样存储；大 model 压缩，压缩结果超过单值上限时按 MODEL_PART_MAX_BYTES 切分
+async function encodeDrawingModel(model: string): Promise<EncodedModel> {
+    if (model.length <= MODEL_COMPRESSION_THRESHOLD) {
+        return { fields: { model }, parts: [] };
+    }
+
+    const compressed = await compressText(model);
+    if (compressed.byteLength <= MODEL_PART_MAX_BYTES) {
+        return { fields: { compressedModel: compressed }, parts: [] };
+    }
+
+    const parts: Uint8Array[] = [];
+    for (let offset = 0; offset < compressed.byteLength; offset += MODEL_PART_MAX_BYTES) {
+        parts.push(compressed.slice(offset, offset + MODEL_PART_MAX_BYTES));
+    }
+    return { fields: { modelParts: parts.length }, parts };
+}
+
+// 按已编码的 model 计算一条绘画记录的写入键值（metadata 为 null 时删除），并清理旧记录多出来的分片
+function drawingWrites(
+    id: string,
+    metadata: Metadata | null,
+    encoded: EncodedModel | null,
+    existing: StoredDrawing | null | undefined
+): { puts: Record<string, unknown>; deletes: string[] } {
+    const puts: Record<string, unknown> = {};
+    const deletes: string[] = [];
+    let partCount = 0;
+
+    if (metadata && encoded) {
+        const { model, ...rest } = metadata;
+        puts[`${PrefixType.drawing}${id}`] = { ...rest, ...encoded.fields };
+        encoded.parts.forEach((part, index) => {
+            puts[drawingPartKey(id, index)] = part;
+        });
+        partCount = encoded.parts.length;
+    } else {
+        deletes.push(`${PrefixType.drawing}${id}`);
+    }
+
+    for (let index = partCount; index < (existing?.modelParts ?? 0); index++) {
+        deletes.push(drawingPartKey(id, index));
+    }
+    return { puts, deletes };
+}
+
+async function compressText(text: string): Promise<Uint8Array> {
+    const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function decompressText(bytes: Uint8Array): Promise<string> {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Response(stream).text();
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.byteLength, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return result;
+}
+
+// 房间令牌签名：令牌格式为 `${role}.${epoch}.${signature}`，签名覆盖房间 id、纪元和角色
+class RoomTokenSigner {
+    private keyPromise: Promise<CryptoKey>;
+
+    constructor(secret: string) {
+        this.keyPromise = crypto.subtle.importKey(
+            'raw',
+            new TextEncoder().encode(secret),
+            { name: 'HMAC', hash: 'SHA-256' },
+            false,
+            ['sign', 'verify']
+        );
+    }
+
+    async sign(roomId: string, epoch: string, role: UserRole): Promise<string> {
+        const key = await this.keyPromise;
+        const signature = await crypto.subtle.sign('HMAC', key, this.encodePayload(roomId, epoch, role));
+        return `${role}.${epoch}.${RoomTokenSigner.toBase64Url(new Uint8Array(signature))}`;
+    }
+
+    async verify(token: string, roomId: string, epoch: string): Promise<UserRole | null> {
+        const parts = token.split('.');
+        if (parts.length !== 3) return null;
+
+        const [role, tokenEpoch, encodedSignature] = parts;
+        if (!isUserRole(role) || tokenEpoch !== epoch) return null;
+
+        const signature = RoomTokenSigner.fromBase64Url(encodedSignature);
+        if (!signature) return null;
+
+        const key = await this.keyPromise;
+        const valid = await crypto.subtle.verify('HMAC', key, signature, this.encodePayload(roomId, epoch, role));
+        return valid ? role : null;
+    }
+
+    private encodePayload(roomId: string, epoch: string, role: UserRole): Uint8Array {
+        return new TextEncoder().encode(`${roomId}:${epoch}:${role}`);
+    }
+
+    private static toBase64Url(bytes: Uint8Array): string {
+        let binary = '';
+        for (const byte of bytes) {
+            binary += String.fromCharCode(byte);
+        }
+        return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    }
+
+    private static fromBase64Url(value: string): Uint8Array | null {
+        try {
+            const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+            return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+        } catch {
+            return null;
+        }
+    }
+}
+
+// 待发送的消息：按连接的编码惰性序列化并缓存，广播给混合编码的房间时每种编码只编码一次
+class OutboundMessage {
+    private frames: Partial<Record<WireEncoding, string | Uint8Array>> = {};
+
+    constructor(readonly message: object) {}
+
+    frame(encoding: WireEncoding): string | Uint8Array {
+        return this.frames[encoding] ??= encodeWireMessage(this.message, encoding);
+    }
+}
 
 class RateLimiter {
     private requestCounts: Map<string, {count: number, timestamp: number}> = new Map();
@@ -717,27 +3398,28 @@ class RateLimiter {
         this.windowMs = windowMs;
     }
 
-    isRateLimited(key: string): boolean {
+    // cost 为本次请求占用的次数，批量请求可按操作数折算
+    isRateLimited(key: string, cost: number = 1): boolean {
         const now = Date.now();
         const record = this.requestCounts.get(key);
 
         if (!record) {
-            this.requestCounts.set(key, { count: 1, timestamp: now });
+            this.requestCounts.set(key, { count: cost, timestamp: now });
             return false;
         }
 
         if (now - record.timestamp > this.windowMs) {
             // 如果时间窗口已过，重置计数
-            this.requestCounts.set(key, { count: 1, timestamp: now });
+            this.requestCounts.set(key, { count: cost, timestamp: now });
             return false;
         }
 
-        if (record.count >= this.maxRequests) {
+        if (record.count + cost > this.maxRequests) {
             return true; // 速率限制触发
         }
 
         // 更新请求计数
-        record.count += 1;
+        record.count += cost;
         this.requestCounts.set(key, record);
         return false;
     }
@@ -753,16 +3435,33 @@ export default {
     async fetch(request: Request, env: Env): Promise<Response> {
         const url = new URL(request.url);
 
-        if (request.headers.get('Upgrade') === 'websocket') {
-            const roomId = url.searchParams.get('room');
-            if (!roomId) {
-                return new Response('missing_room_id', { status: 400 });
+        // 房间 HTTP 接口按邀请码转发给对应的 Durable Object
+        const apiMatch = url.pathname.match(ROOM_API_PATH);
+        if (apiMatch) {
+            let inviteCode: string;
+            try {
+                inviteCode = decodeURIComponent(apiMatch[1]);
+            } catch {
+                return new Response(ErrorType.UNKNOWN_INVITE_CODE, { status: 404 });
             }
+            const objectId = await resolveInviteRoom(env, inviteCode, false);
+            if (objectId instanceof Response) return objectId;
+            return env.WhiteboardRealTime.get(objectId).fetch(request);
+        }
 
-            const objectId = env.WhiteboardRealTime.idFromName(roomId);
-            const stub = env.WhiteboardRealTime.get(objectId);
+        if (request.headers.get('Upgrade') === 'websocket') {
+            // 不带 room 参数表示创建新房间，邀请码在 create 时生成；加入或重连必须携带有效邀请码
+            const inviteCode = url.searchParams.get('room');
+            let objectId: DurableObjectId;
+            if (!inviteCode) {
+                objectId = env.WhiteboardRealTime.newUniqueId();
+            } else {
+                const resolved = await resolveInviteRoom(env, inviteCode, true);
+                if (resolved instanceof Response) return resolved;
+                objectId = resolved;
+            }
 
-            return stub.fetch(request);
+            return env.WhiteboardRealTime.get(objectId).fetch(request);
         }
 
         return env.ASSETS.fetch(request);
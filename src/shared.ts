@@ -1,4 +1,5 @@
 // src/shared.ts
+import { decode as decodeMsgpack, encode as encodeMsgpack } from '@msgpack/msgpack';
 
 // 用户角色
 export enum UserRole {
@@ -9,13 +10,22 @@ export enum UserRole {
 
 export enum PrefixType {
   moveView = "moveview_",
-  drawing = "drawing_"
+  drawing = "drawing_",
+  chat = "chat_",
+  operation = "oplog_",
+  drawingPart = "drawingpart_",
+  checkpoint = "checkpoint_",
+  checkpointInfo = "checkpointinfo_",
+  history = "history_"
 }
 
 export enum RealTimeCommand{
             create = "create",
             join = "join",
             initSetup = "initSetup",
+            initSetupBegin = "initSetupBegin",
+            initSetupChunk = "initSetupChunk",
+            initSetupEnd = "initSetupEnd",
             clear = "clear",
             userList = "userList",
             chat = "chat",
@@ -25,9 +35,72 @@ export enum RealTimeCommand{
             drawingUpdate = "drawingUpdate",
             userUpdate = "userUpdate",
             closeRoom = 'closeRoom',
+            roomTokens = 'roomTokens',
+            setRole = 'setRole',
+            kickUser = 'kickUser',
+            banUser = 'banUser',
+            transferHost = 'transferHost',
+            chatHistory = 'chatHistory',
+            undo = 'undo',
+            redo = 'redo',
+            conflict = 'conflict',
+            lockObject = 'lockObject',
+            unlockObject = 'unlockObject',
+            presence = 'presence',
+            followMode = 'followMode',
+            setFollowing = 'setFollowing',
+            batch = 'batch',
+            createCheckpoint = 'createCheckpoint',
+            listCheckpoints = 'listCheckpoints',
+            restoreCheckpoint = 'restoreCheckpoint',
+            importBoard = 'importBoard',
+            inviteCode = 'inviteCode',
+            rotateInviteCode = 'rotateInviteCode',
+            ack = 'ack',
             error = 'error'
             }
 
+// 命令权限矩阵：列出的命令要求已登录，且角色在允许列表内；未列出的命令（create/join 等）不做角色限制
+export const COMMAND_PERMISSIONS: Partial<Record<RealTimeCommand, ReadonlyArray<UserRole>>> = {
+  [RealTimeCommand.chat]: [UserRole.HOST, UserRole.EDITOR, UserRole.VIEWER],
+  [RealTimeCommand.chatHistory]: [UserRole.HOST, UserRole.EDITOR, UserRole.VIEWER],
+  [RealTimeCommand.presence]: [UserRole.HOST, UserRole.EDITOR, UserRole.VIEWER],
+  [RealTimeCommand.setFollowing]: [UserRole.HOST, UserRole.EDITOR, UserRole.VIEWER],
+  [RealTimeCommand.followMode]: [UserRole.HOST],
+  [RealTimeCommand.userUpdate]: [UserRole.HOST, UserRole.EDITOR, UserRole.VIEWER],
+  [RealTimeCommand.updateBackground]: [UserRole.HOST, UserRole.EDITOR],
+  [RealTimeCommand.updateMoveView]: [UserRole.HOST, UserRole.EDITOR],
+  [RealTimeCommand.deleteMoveView]: [UserRole.HOST, UserRole.EDITOR],
+  [RealTimeCommand.drawingUpdate]: [UserRole.HOST, UserRole.EDITOR],
+  [RealTimeCommand.clear]: [UserRole.HOST, UserRole.EDITOR],
+  [RealTimeCommand.undo]: [UserRole.HOST, UserRole.EDITOR],
+  [RealTimeCommand.redo]: [UserRole.HOST, UserRole.EDITOR],
+  [RealTimeCommand.lockObject]: [UserRole.HOST, UserRole.EDITOR],
+  [RealTimeCommand.unlockObject]: [UserRole.HOST, UserRole.EDITOR],
+  [RealTimeCommand.batch]: [UserRole.HOST, UserRole.EDITOR],
+  [RealTimeCommand.createCheckpoint]: [UserRole.HOST],
+  [RealTimeCommand.listCheckpoints]: [UserRole.HOST],
+  [RealTimeCommand.restoreCheckpoint]: [UserRole.HOST],
+  [RealTimeCommand.importBoard]: [UserRole.HOST],
+  [RealTimeCommand.rotateInviteCode]: [UserRole.HOST],
+  [RealTimeCommand.closeRoom]: [UserRole.HOST],
+  [RealTimeCommand.setRole]: [UserRole.HOST],
+  [RealTimeCommand.kickUser]: [UserRole.HOST],
+  [RealTimeCommand.banUser]: [UserRole.HOST],
+  [RealTimeCommand.transferHost]: [UserRole.HOST],
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return value === UserRole.HOST || value === UserRole.EDITOR || value === UserRole.VIEWER;
+}
+
+// 判断某角色能否执行某命令；未在矩阵中的命令视为无角色限制
+export function hasCommandPermission(command: RealTimeCommand, role: UserRole | undefined): boolean {
+  const allowedRoles = COMMAND_PERMISSIONS[command];
+  if (!allowedRoles) return true;
+  return role !== undefined && allowedRoles.includes(role);
+}
+
 
 
 // 用户会话
@@ -39,6 +112,8 @@ export interface UserSession {
   protocolVersion?: number;
   platform?: string;
   appVersion?: string;
+  joinedAt?: number;
+  following?: boolean; // 跟随模式下是否跟随主讲人视口（false 表示自由浏览）
 }
 
 // 消息类型
@@ -62,8 +137,171 @@ export enum ErrorType {
   USER_NOT_JOINED = 'User not joined',
   INVALID_FORMAT = 'invalid_format',
   RATE_LIMITED = 'rate_limited',
+  MESSAGE_TOO_LONG = 'message_too_long',
   ROOM_NOT_EXIST = 'Room_does_not_exist',
   UPGRADE_REQUIRED = 'upgrade_required',
+  INVALID_TOKEN = 'invalid_token',
+  USER_BANNED = 'user_banned',
+  NOTHING_TO_UNDO = 'nothing_to_undo',
+  NOTHING_TO_REDO = 'nothing_to_redo',
+  OBJECT_LOCKED = 'object_locked',
+  INVALID_JSON = 'invalid_json',
+  MISSING_MESSAGE_TYPE = 'missing_message_type',
+  UNKNOWN_COMMAND = 'unknown_command',
+  MISSING_CONTENT = 'missing_content',
+  INVALID_OBJECT_ID = 'invalid_object_id',
+  INVALID_MODEL = 'invalid_model',
+  INVALID_VERSION = 'invalid_version',
+  INVALID_DRAWING_ACTION = 'invalid_drawing_action',
+  INVALID_USER_NAME = 'invalid_user_name',
+  INVALID_ROLE = 'invalid_role',
+  INVALID_TARGET_USER = 'invalid_target_user',
+  INVALID_MESSAGE = 'invalid_message',
+  INVALID_CURSOR = 'invalid_cursor',
+  INVALID_PAGE_SIZE = 'invalid_page_size',
+  INVALID_SYNC_STATE = 'invalid_sync_state',
+  INVALID_PRESENCE = 'invalid_presence',
+  INVALID_FLAG = 'invalid_flag',
+  INVALID_REQUEST_ID = 'invalid_request_id',
+  INVALID_BATCH = 'invalid_batch',
+  BATCH_FAILED = 'batch_failed',
+  INVALID_CHECKPOINT_NAME = 'invalid_checkpoint_name',
+  INVALID_CHECKPOINT_ID = 'invalid_checkpoint_id',
+  CHECKPOINT_NOT_FOUND = 'checkpoint_not_found',
+  CHECKPOINT_FAILED = 'checkpoint_failed',
+  INVALID_BUNDLE = 'invalid_bundle',
+  UNSUPPORTED_BUNDLE_VERSION = 'unsupported_bundle_version',
+  BUNDLE_TOO_LARGE = 'bundle_too_large',
+  INVALID_IMPORT_MODE = 'invalid_import_mode',
+  IMPORT_FAILED = 'import_failed',
+  INVALID_ENCODING = 'invalid_encoding',
+  UNKNOWN_INVITE_CODE = 'unknown_invite_code',
+  INVITE_CODE_EXPIRED = 'invite_code_expired',
+  INVITE_CODE_REVOKED = 'invite_code_revoked',
+  INVITE_CODE_FAILED = 'invite_code_failed',
+}
+
+// 邀请码：创建房间时由服务端生成并下发给主持人，加入者用它连接房间；expiresAt 在每次使用后顺延
+export interface InviteCode {
+  code: string;
+  expiresAt: number;
+}
+
+// 房间令牌：创建房间时下发给主持人，主持人把 editor/viewer 令牌作为邀请分发
+export interface RoomTokens {
+  hostToken: string;
+  editorToken: string;
+  viewerToken: string;
+}
+
+// 房间操作日志条目：seq 为房间内单调递增的序号，断线重连时按序号补发
+export interface RoomOperation {
+  seq: number;
+  type: RealTimeCommand;
+  content?: any;
+  version?: number;
+}
+
+// 移动层锁：持有者在 expiresAt 前独占编辑，需定期重新 lockObject 续约
+export interface ObjectLock {
+  id: string;
+  userId: string;
+  userName: string;
+  expiresAt: number;
+}
+
+export interface PresencePoint {
+  x: number;
+  y: number;
+}
+
+export interface PresenceRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 实时在场信息（光标、视口、激光笔、当前工具），只在内存中转发，不落库；
+// cleared 为 true 表示该用户已离开，客户端应移除其光标
+export interface PresenceState {
+  userId: string;
+  userName: string;
+  cursor?: PresencePoint;
+  viewport?: PresenceRect;
+  laser?: boolean;
+  tool?: string;
+  updatedAt: number;
+  cleared?: boolean;
+}
+
+// 主讲人视口：主持人开启跟随模式后，其 presence 中的视口即为房间的主讲视图
+export interface PresenterView {
+  userId: string;
+  userName: string;
+  viewport?: PresenceRect;
+  startedAt: number;
+}
+
+// 画板导出包：format/version 标识格式，不兼容的结构变更需要提升 version
+export const BOARD_BUNDLE_FORMAT = 'whiteboard-board-bundle';
+export const BOARD_BUNDLE_VERSION = 1;
+
+// 导出包中的单条移动层/绘画记录，model 为客户端原样上传的字符串
+export interface BoardBundleRecord {
+  id: string;
+  model: string;
+  timestamp: number;
+  action?: string;
+  version?: number;
+}
+
+export interface BoardBundle {
+  format: typeof BOARD_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  fileName: string | null;
+  background: unknown | null;
+  moveViews: BoardBundleRecord[];
+  drawings: BoardBundleRecord[];
+}
+
+// 导入模式：replace 先清空当前画板，merge 按 id 覆盖或新增
+export type ImportMode = 'replace' | 'merge';
+export const IMPORT_MODES: ReadonlyArray<ImportMode> = ['replace', 'merge'];
+
+export interface ImportBoardResult {
+  mode: ImportMode;
+  moveViews: number;
+  drawings: number;
+  background: boolean;
+  checkpointId: string; // 导入前自动保存的检查点，可用于撤回导入
+}
+
+// 画板检查点：automatic 为 true 时由服务端在清空、恢复等操作前自动创建，name 为触发原因
+export interface CheckpointInfo {
+  id: string;
+  name: string;
+  createdAt: number;
+  createdBy: string | null;
+  automatic: boolean;
+  recordCount: number;
+}
+
+// 房间状态：供落地页邀请卡片查询，不需要令牌，只暴露公开信息
+export interface RoomStatus {
+  exists: boolean;
+  closed: boolean;
+  participants: number;
+  pendingCleanupAt: number | null;
+  roomMinProtocolVersion: number | null;
+  fileName: string | null;
+}
+
+// 聊天记录分页结果：messages 按时间升序，hasMore 表示更早的记录仍可继续拉取
+export interface ChatHistoryPage {
+  messages: ChatMessage[];
+  hasMore: boolean;
 }
 
 // 聊天消息
@@ -75,3 +313,478 @@ export interface ChatMessage {
   timestamp: number;
   messageType: MessageType;
 }
+
+
+// ---------------- 客户端消息协议 ----------------
+
+export const MAX_USER_NAME_LENGTH = 100;
+export const MAX_CHAT_MESSAGE_LENGTH = 1000;
+export const MAX_OBJECT_ID_LENGTH = 256;
+export const MAX_TOOL_NAME_LENGTH = 64;
+export const MAX_REQUEST_ID_LENGTH = 64;
+export const MAX_BATCH_OPERATIONS = 100;
+export const MAX_CHECKPOINT_NAME_LENGTH = 100;
+export const MAX_BUNDLE_RECORDS = 20000;
+
+export type DrawingAction = 'addStrokes' | 'moveStrokes' | 'removeStrokes' | 'clearStrokes';
+export const DRAWING_ACTIONS: ReadonlyArray<DrawingAction> = ['addStrokes', 'moveStrokes', 'removeStrokes', 'clearStrokes'];
+
+export interface ClientMeta {
+  protocolVersion?: number;
+  platform?: string;
+  appVersion?: string;
+  encodings?: string[]; // 客户端支持的传输编码（WireEncoding），未知取值忽略
+}
+
+export interface CreateContent extends ClientMeta {
+  userId: string;
+  userName: string;
+  role: UserRole;
+  fileName?: string;
+  token?: string;
+}
+
+export interface JoinContent extends ClientMeta {
+  userId: string;
+  userName: string;
+  token?: string;
+  syncId?: string;
+  lastSeq?: number;
+}
+
+export interface ChatContent {
+  content: string;
+}
+
+// before 为消息 id 或时间戳
+export interface ChatHistoryContent {
+  before?: string | number;
+  limit?: number;
+}
+
+// 移动层更新：除校验字段外的其它字段原样转发给其他客户端
+export interface MoveViewUpdateContent {
+  id: string;
+  model: string;
+  baseVersion?: number;
+  [field: string]: unknown;
+}
+
+export interface ObjectIdContent {
+  id: string;
+}
+
+export type DrawingUpdateContent =
+  | { action: 'clearStrokes'; id?: string; [field: string]: unknown }
+  | {
+    action: Exclude<DrawingAction, 'clearStrokes'>;
+    id: string;
+    model: string;
+    baseVersion?: number;
+    [field: string]: unknown;
+  };
+
+export interface UserUpdateContent {
+  userName: string;
+}
+
+export interface TargetUserContent {
+  userId: string;
+}
+
+export interface SetRoleContent extends TargetUserContent {
+  role: UserRole.EDITOR | UserRole.VIEWER;
+}
+
+// null 表示清除该项
+export interface PresenceContent {
+  cursor?: PresencePoint | null;
+  viewport?: PresenceRect | null;
+  laser?: boolean;
+  tool?: string;
+}
+
+export interface FollowModeContent {
+  enabled: boolean;
+  viewport?: PresenceRect;
+}
+
+export interface SetFollowingContent {
+  following: boolean;
+}
+
+export interface ImportBoardContent {
+  bundle: BoardBundle;
+  mode?: ImportMode;
+}
+
+export interface CreateCheckpointContent {
+  name?: string;
+}
+
+// 批量命令中的单个操作；清空画布不能放在批量中
+export type BatchOperation =
+  | { type: RealTimeCommand.drawingUpdate; content: Exclude<DrawingUpdateContent, { action: 'clearStrokes' }> }
+  | { type: RealTimeCommand.updateMoveView; content: MoveViewUpdateContent }
+  | { type: RealTimeCommand.deleteMoveView; content: ObjectIdContent };
+
+export interface BatchContent {
+  operations: BatchOperation[];
+}
+
+// requestId 由客户端生成，服务端在对应的 ack / error 回复中原样带回
+interface ClientEnvelope<T extends RealTimeCommand, C> {
+  type: T;
+  content: C;
+  broadcast?: boolean;
+  requestId?: string;
+}
+
+// 客户端可发送的全部消息，按 type 区分 content 结构
+export type ClientMessage =
+  | ClientEnvelope<RealTimeCommand.create, CreateContent>
+  | ClientEnvelope<RealTimeCommand.join, JoinContent>
+  | ClientEnvelope<RealTimeCommand.chat, ChatContent>
+  | ClientEnvelope<RealTimeCommand.chatHistory, ChatHistoryContent>
+  | ClientEnvelope<RealTimeCommand.updateBackground, unknown>
+  | ClientEnvelope<RealTimeCommand.updateMoveView, MoveViewUpdateContent>
+  | ClientEnvelope<RealTimeCommand.deleteMoveView, ObjectIdContent>
+  | ClientEnvelope<RealTimeCommand.drawingUpdate, DrawingUpdateContent>
+  | ClientEnvelope<RealTimeCommand.userUpdate, UserUpdateContent>
+  | ClientEnvelope<RealTimeCommand.clear, undefined>
+  | ClientEnvelope<RealTimeCommand.closeRoom, undefined>
+  | ClientEnvelope<RealTimeCommand.setRole, SetRoleContent>
+  | ClientEnvelope<RealTimeCommand.kickUser, TargetUserContent>
+  | ClientEnvelope<RealTimeCommand.banUser, TargetUserContent>
+  | ClientEnvelope<RealTimeCommand.transferHost, TargetUserContent>
+  | ClientEnvelope<RealTimeCommand.undo, undefined>
+  | ClientEnvelope<RealTimeCommand.redo, undefined>
+  | ClientEnvelope<RealTimeCommand.lockObject, ObjectIdContent>
+  | ClientEnvelope<RealTimeCommand.unlockObject, ObjectIdContent>
+  | ClientEnvelope<RealTimeCommand.presence, PresenceContent>
+  | ClientEnvelope<RealTimeCommand.followMode, FollowModeContent>
+  | ClientEnvelope<RealTimeCommand.setFollowing, SetFollowingContent>
+  | ClientEnvelope<RealTimeCommand.batch, BatchContent>
+  | ClientEnvelope<RealTimeCommand.createCheckpoint, CreateCheckpointContent>
+  | ClientEnvelope<RealTimeCommand.listCheckpoints, undefined>
+  | ClientEnvelope<RealTimeCommand.restoreCheckpoint, ObjectIdContent>
+  | ClientEnvelope<RealTimeCommand.importBoard, ImportBoardContent>
+  | ClientEnvelope<RealTimeCommand.rotateInviteCode, undefined>;
+
+export type ClientCommand = ClientMessage['type'];
+export type ClientMessageOf<T extends ClientCommand> = Extract<ClientMessage, { type: T }>;
+
+// ack / error 回复的关联信息，与 type、content 同级；command 为客户端原始命令
+export interface RequestCorrelation {
+  requestId: string;
+  command?: ClientCommand;
+}
+
+// 命令处理成功的确认；seq 为该命令写入操作日志时分配的房间序号。没有产生效果的命令（如释放不存在的锁）不回复 ack
+export interface AckContent {
+  seq?: number;
+  timestamp: number;
+}
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; error: ErrorType };
+
+function valid<T>(value: T): Validation<T> {
+  return { ok: true, value };
+}
+
+function invalid<T>(error: ErrorType): Validation<T> {
+  return { ok: false, error };
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown, maxLength: number = Number.MAX_SAFE_INTEGER): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+}
+
+function isOptionalString(value: unknown): value is string | undefined {
+  return value === undefined || typeof value === 'string';
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+export function isPresencePoint(value: unknown): value is PresencePoint {
+  return isObject(value) && Number.isFinite(value.x) && Number.isFinite(value.y);
+}
+
+export function isPresenceRect(value: unknown): value is PresenceRect {
+  return isPresencePoint(value) && Number.isFinite((value as any).width) && Number.isFinite((value as any).height);
+}
+
+function validateClientMeta(content: Record<string, any>): boolean {
+  const { encodings } = content;
+  return isOptionalString(content.platform)
+    && isOptionalString(content.appVersion)
+    && (encodings === undefined || (Array.isArray(encodings) && encodings.every((encoding) => typeof encoding === 'string')));
+}
+
+function validateObjectId(content: unknown): Validation<ObjectIdContent> {
+  if (!isObject(content)) return invalid(ErrorType.MISSING_CONTENT);
+  if (!isNonEmptyString(content.id, MAX_OBJECT_ID_LENGTH)) return invalid(ErrorType.INVALID_OBJECT_ID);
+  return valid({ id: content.id });
+}
+
+function validateTargetUser(content: unknown): Validation<TargetUserContent> {
+  if (!isObject(content)) return invalid(ErrorType.MISSING_CONTENT);
+  if (!isNonEmptyString(content.userId)) return invalid(ErrorType.INVALID_TARGET_USER);
+  return valid({ userId: content.userId });
+}
+
+function validateBaseVersion(value: unknown): boolean {
+  return value === undefined || value === null || isNonNegativeInteger(value);
+}
+
+const BATCH_COMMANDS: ReadonlyArray<BatchOperation['type']> = [
+  RealTimeCommand.drawingUpdate,
+  RealTimeCommand.updateMoveView,
+  RealTimeCommand.deleteMoveView
+];
+
+function parseBundleRecords(value: unknown): BoardBundleRecord[] | null {
+  if (!Array.isArray(value)) return null;
+  const records: BoardBundleRecord[] = [];
+  for (const record of value) {
+    if (!isObject(record) || !isNonEmptyString(record.id, MAX_OBJECT_ID_LENGTH) || typeof record.model !== 'string') return null;
+    if (!Number.isFinite(record.timestamp) || !isOptionalString(record.action)) return null;
+    if (!(record.version === undefined || isNonNegativeInteger(record.version))) return null;
+    records.push({ id: record.id, model: record.model, timestamp: record.timestamp, action: record.action, version: record.version });
+  }
+  return records;
+}
+
+// 校验导出包（HTTP 导入与 importBoard 命令共用），只保留已知字段
+export function parseBoardBundle(raw: unknown): Validation<BoardBundle> {
+  if (!isObject(raw) || raw.format !== BOARD_BUNDLE_FORMAT) return invalid(ErrorType.INVALID_BUNDLE);
+  if (!isNonNegativeInteger(raw.version) || raw.version > BOARD_BUNDLE_VERSION) return invalid(ErrorType.UNSUPPORTED_BUNDLE_VERSION);
+
+  const moveViews = parseBundleRecords(raw.moveViews);
+  const drawings = parseBundleRecords(raw.drawings);
+  if (!moveViews || !drawings || !(raw.fileName === null || isOptionalString(raw.fileName))) return invalid(ErrorType.INVALID_BUNDLE);
+  if (moveViews.length + drawings.length > MAX_BUNDLE_RECORDS) return invalid(ErrorType.BUNDLE_TOO_LARGE);
+
+  return valid({
+    format: BOARD_BUNDLE_FORMAT,
+    version: raw.version,
+    exportedAt: Number.isFinite(raw.exportedAt) ? raw.exportedAt : Date.now(),
+    fileName: raw.fileName ?? null,
+    background: raw.background ?? null,
+    moveViews,
+    drawings,
+  });
+}
+
+function noContent(): Validation<undefined> {
+  return valid(undefined);
+}
+
+type ContentValidators = {
+  [K in ClientCommand]: (content: unknown) => Validation<ClientMessageOf<K>['content']>;
+};
+
+// 每个命令的 content 校验器；返回的 content 只保留已校验的字段（需原样转发的命令除外）
+const CONTENT_VALIDATORS: ContentValidators = {
+  [RealTimeCommand.create]: (content) => {
+    if (!isObject(content)) return invalid(ErrorType.MISSING_CONTENT);
+    if (!isNonEmptyString(content.userId) || !isNonEmptyString(content.userName)) return invalid(ErrorType.MISSING_USER_INFO);
+    if (content.userName.length > MAX_USER_NAME_LENGTH) return invalid(ErrorType.INVALID_USER_NAME);
+    if (!isUserRole(content.role)) return invalid(ErrorType.INVALID_ROLE);
+    if (!isOptionalString(content.token)) return invalid(ErrorType.INVALID_TOKEN);
+    if (!isOptionalString(content.fileName) || !validateClientMeta(content)) return invalid(ErrorType.INVALID_FORMAT);
+    return valid(content as CreateContent);
+  },
+  [RealTimeCommand.join]: (content) => {
+    if (!isObject(content)) return invalid(ErrorType.MISSING_CONTENT);
+    if (!isNonEmptyString(content.userId) || !isNonEmptyString(content.userName)) return invalid(ErrorType.MISSING_USER_INFO);
+    if (content.userName.length > MAX_USER_NAME_LENGTH) return invalid(ErrorType.INVALID_USER_NAME);
+    if (!isOptionalString(content.token)) return invalid(ErrorType.INVALID_TOKEN);
+    if (!isOptionalString(content.syncId) || !(content.lastSeq === undefined || isNonNegativeInteger(content.lastSeq))) {
+      return invalid(ErrorType.INVALID_SYNC_STATE);
+    }
+    if (!validateClientMeta(content)) return invalid(ErrorType.INVALID_FORMAT);
+    return valid(content as JoinContent);
+  },
+  [RealTimeCommand.chat]: (content) => {
+    if (!isObject(content)) return invalid(ErrorType.MISSING_CONTENT);
+    if (!isNonEmptyString(content.content)) return invalid(ErrorType.INVALID_MESSAGE);
+    if (content.content.length > MAX_CHAT_MESSAGE_LENGTH) return invalid(ErrorType.MESSAGE_TOO_LONG);
+    return valid({ content: content.content });
+  },
+  [RealTimeCommand.chatHistory]: (content) => {
+    const { before, limit } = isObject(content) ? content : {} as Record<string, any>;
+    if (!(before === undefined || before === null || typeof before === 'string' || Number.isFinite(before))) {
+      return invalid(ErrorType.INVALID_CURSOR);
+    }
+    if (!(limit === undefined || (isNonNegativeInteger(limit) && limit > 0))) return invalid(ErrorType.INVALID_PAGE_SIZE);
+    return valid({ before: before ?? undefined, limit });
+  },
+  [RealTimeCommand.updateBackground]: (content) => {
+    if (content === undefined || content === null) return invalid(ErrorType.MISSING_CONTENT);
+    return valid(content);
+  },
+  [RealTimeCommand.updateMoveView]: (content) => {
+    if (!isObject(content)) return invalid(ErrorType.MISSING_CONTENT);
+    if (!isNonEmptyString(content.id, MAX_OBJECT_ID_LENGTH)) return invalid(ErrorType.INVALID_OBJECT_ID);
+    if (typeof content.model !== 'string') return invalid(ErrorType.INVALID_MODEL);
+    if (!validateBaseVersion(content.baseVersion)) return invalid(ErrorType.INVALID_VERSION);
+    return valid(content as MoveViewUpdateContent);
+  },
+  [RealTimeCommand.deleteMoveView]: validateObjectId,
+  [RealTimeCommand.drawingUpdate]: (content) => {
+    if (!isObject(content)) return invalid(ErrorType.MISSING_CONTENT);
+    if (!DRAWING_ACTIONS.includes(content.action)) return invalid(ErrorType.INVALID_DRAWING_ACTION);
+    if (content.action === 'clearStrokes') return valid(content as DrawingUpdateContent);
+    if (!isNonEmptyString(content.id, MAX_OBJECT_ID_LENGTH)) return invalid(ErrorType.INVALID_OBJECT_ID);
+    if (typeof content.model !== 'string') return invalid(ErrorType.INVALID_MODEL);
+    if (!validateBaseVersion(content.baseVersion)) return invalid(ErrorType.INVALID_VERSION);
+    return valid(content as DrawingUpdateContent);
+  },
+  [RealTimeCommand.userUpdate]: (content) => {
+    if (!isObject(content)) return invalid(ErrorType.MISSING_CONTENT);
+    if (!isNonEmptyString(content.userName, MAX_USER_NAME_LENGTH)) return invalid(ErrorType.INVALID_USER_NAME);
+    return valid({ userName: content.userName });
+  },
+  [RealTimeCommand.clear]: noContent,
+  [RealTimeCommand.closeRoom]: noContent,
+  [RealTimeCommand.setRole]: (content) => {
+    const target = validateTargetUser(content);
+    if (!target.ok) return target;
+    const role = (content as Record<string, any>).role;
+    // 主持人身份只能移交，不能通过 setRole 授予
+    if (role !== UserRole.EDITOR && role !== UserRole.VIEWER) return invalid(ErrorType.INVALID_ROLE);
+    return valid({ userId: target.value.userId, role });
+  },
+  [RealTimeCommand.kickUser]: validateTargetUser,
+  [RealTimeCommand.banUser]: validateTargetUser,
+  [RealTimeCommand.transferHost]: validateTargetUser,
+  [RealTimeCommand.undo]: noContent,
+  [RealTimeCommand.redo]: noContent,
+  [RealTimeCommand.lockObject]: validateObjectId,
+  [RealTimeCommand.unlockObject]: validateObjectId,
+  [RealTimeCommand.presence]: (content) => {
+    if (!isObject(content)) return invalid(ErrorType.INVALID_PRESENCE);
+    const { cursor, viewport, laser, tool } = content;
+    if (!(cursor === undefined || cursor === null || isPresencePoint(cursor))) return invalid(ErrorType.INVALID_PRESENCE);
+    if (!(viewport === undefined || viewport === null || isPresenceRect(viewport))) return invalid(ErrorType.INVALID_PRESENCE);
+    if (!(laser === undefined || typeof laser === 'boolean')) return invalid(ErrorType.INVALID_PRESENCE);
+    if (!(tool === undefined || (typeof tool === 'string' && tool.length <= MAX_TOOL_NAME_LENGTH))) {
+      return invalid(ErrorType.INVALID_PRESENCE);
+    }
+    return valid({ cursor, viewport, laser, tool });
+  },
+  [RealTimeCommand.followMode]: (content) => {
+    if (!isObject(content)) return invalid(ErrorType.MISSING_CONTENT);
+    if (typeof content.enabled !== 'boolean') return invalid(ErrorType.INVALID_FLAG);
+    if (!(content.viewport === undefined || isPresenceRect(content.viewport))) return invalid(ErrorType.INVALID_PRESENCE);
+    return valid({ enabled: content.enabled, viewport: content.viewport });
+  },
+  [RealTimeCommand.setFollowing]: (content) => {
+    if (!isObject(content)) return invalid(ErrorType.MISSING_CONTENT);
+    if (typeof content.following !== 'boolean') return invalid(ErrorType.INVALID_FLAG);
+    return valid({ following: content.following });
+  },
+  [RealTimeCommand.batch]: (content) => {
+    if (!isObject(content)) return invalid(ErrorType.MISSING_CONTENT);
+    const { operations } = content;
+    if (!Array.isArray(operations) || operations.length === 0 || operations.length > MAX_BATCH_OPERATIONS) {
+      return invalid(ErrorType.INVALID_BATCH);
+    }
+
+    const validated: BatchOperation[] = [];
+    for (const operation of operations) {
+      if (!isObject(operation) || !BATCH_COMMANDS.includes(operation.type)) return invalid(ErrorType.INVALID_BATCH);
+      if (isObject(operation.content) && operation.content.action === 'clearStrokes') return invalid(ErrorType.INVALID_BATCH);
+      // 每个操作沿用对应单条命令的校验规则
+      const result = (CONTENT_VALIDATORS[operation.type as BatchOperation['type']] as (content: unknown) => Validation<unknown>)(operation.content);
+      if (!result.ok) return result;
+      validated.push({ type: operation.type, content: result.value } as BatchOperation);
+    }
+    return valid({ operations: validated });
+  },
+  [RealTimeCommand.createCheckpoint]: (content) => {
+    const { name } = isObject(content) ? content : {} as Record<string, any>;
+    if (!(name === undefined || isNonEmptyString(name, MAX_CHECKPOINT_NAME_LENGTH))) {
+      return invalid(ErrorType.INVALID_CHECKPOINT_NAME);
+    }
+    return valid({ name });
+  },
+  [RealTimeCommand.listCheckpoints]: noContent,
+  [RealTimeCommand.rotateInviteCode]: noContent,
+  [RealTimeCommand.restoreCheckpoint]: (content) => {
+    if (!isObject(content)) return invalid(ErrorType.MISSING_CONTENT);
+    if (!isNonEmptyString(content.id, MAX_OBJECT_ID_LENGTH)) return invalid(ErrorType.INVALID_CHECKPOINT_ID);
+    return valid({ id: content.id });
+  },
+  [RealTimeCommand.importBoard]: (content) => {
+    if (!isObject(content)) return invalid(ErrorType.MISSING_CONTENT);
+    if (!(content.mode === undefined || IMPORT_MODES.includes(content.mode))) return invalid(ErrorType.INVALID_IMPORT_MODE);
+    const bundle = parseBoardBundle(content.bundle);
+    if (!bundle.ok) return bundle;
+    return valid({ bundle: bundle.value, mode: content.mode });
+  },
+};
+
+function isClientCommand(type: string): type is ClientCommand {
+  return Object.prototype.hasOwnProperty.call(CONTENT_VALIDATORS, type);
+}
+
+// 校验一帧已解析的客户端消息，失败时给出具体的 ErrorType
+export function parseClientMessage(raw: unknown): Validation<ClientMessage> {
+  if (!isObject(raw)) return invalid(ErrorType.INVALID_FORMAT);
+  if (!isNonEmptyString(raw.type)) return invalid(ErrorType.MISSING_MESSAGE_TYPE);
+  if (!isClientCommand(raw.type)) return invalid(ErrorType.UNKNOWN_COMMAND);
+  if (!(raw.broadcast === undefined || typeof raw.broadcast === 'boolean')) return invalid(ErrorType.INVALID_FLAG);
+  if (!(raw.requestId === undefined || isNonEmptyString(raw.requestId, MAX_REQUEST_ID_LENGTH))) {
+    return invalid(ErrorType.INVALID_REQUEST_ID);
+  }
+
+  const content = (CONTENT_VALIDATORS[raw.type] as (content: unknown) => Validation<unknown>)(raw.content);
+  if (!content.ok) return content;
+
+  return valid({ type: raw.type, content: content.value, broadcast: raw.broadcast, requestId: raw.requestId } as ClientMessage);
+}
+
+// 在完整校验之前尽量取出关联信息，使校验失败的错误也能对应到原请求
+export function readRequestCorrelation(raw: unknown): RequestCorrelation | undefined {
+  if (!isObject(raw) || !isNonEmptyString(raw.requestId, MAX_REQUEST_ID_LENGTH)) return undefined;
+  const command = typeof raw.type === 'string' && isClientCommand(raw.type) ? raw.type : undefined;
+  return { requestId: raw.requestId, command };
+}
+
+
+// ---------------- 传输编码 ----------------
+
+// 连接的传输编码：json 使用文本帧，msgpack 使用 MessagePack 二进制帧
+export enum WireEncoding {
+  json = 'json',
+  msgpack = 'msgpack'
+}
+
+const textDecoder = new TextDecoder('utf-8', { fatal: true, ignoreBOM: false });
+
+// 按连接的编码序列化一条消息
+export function encodeWireMessage(message: unknown, encoding: WireEncoding): string | Uint8Array {
+  // 与 JSON.stringify 一致地省略值为 undefined 的字段
+  return encoding === WireEncoding.msgpack ? encodeMsgpack(message, { ignoreUndefined: true }) : JSON.stringify(message);
+}
+
+// 文本帧按 JSON 解析；二进制帧按 MessagePack 解析，
+// 但以 '{' 或空白开头的二进制帧视为 UTF-8 JSON，兼容以二进制帧发送 JSON 的旧客户端
+export function decodeWireMessage(frame: string | ArrayBuffer | Uint8Array): unknown {
+  if (typeof frame === 'string') return JSON.parse(frame);
+
+  const bytes = frame instanceof Uint8Array ? frame : new Uint8Array(frame);
+  const first = bytes[0];
+  if (first === 0x7b || first === 0x20 || first === 0x09 || first === 0x0a || first === 0x0d) {
+    return JSON.parse(textDecoder.decode(bytes));
+  }
+  return decodeMsgpack(bytes);
+}
@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Chat } from '../src/server/index';
+import { ErrorType, RealTimeCommand, UserRole, UserSession } from '../src/shared';
+
+// 内存版存储：只实现房间处理消息时用到的接口
+class FakeStorage {
+  private data = new Map<string, unknown>();
+  private alarm: number | null = null;
+
+  async get(keys: string | string[]) {
+    if (!Array.isArray(keys)) return this.data.get(keys);
+    return new Map(keys.filter((key) => this.data.has(key)).map((key) => [key, this.data.get(key)]));
+  }
+
+  async put(entries: string | Record<string, unknown>, value?: unknown) {
+    if (typeof entries === 'string') {
+      this.data.set(entries, value);
+      return;
+    }
+    for (const [key, entry] of Object.entries(entries)) this.data.set(key, entry);
+  }
+
+  async delete(keys: string | string[]) {
+    for (const key of Array.isArray(keys) ? keys : [keys]) this.data.delete(key);
+  }
+
+  async list(options: { prefix?: string; startAfter?: string; limit?: number; reverse?: boolean } = {}) {
+    let keys = Array.from(this.data.keys())
+      .filter((key) => key.startsWith(options.prefix ?? '') && (options.startAfter === undefined || key > options.startAfter))
+      .sort();
+    if (options.reverse) keys.reverse();
+    if (options.limit !== undefined) keys = keys.slice(0, options.limit);
+    return new Map(keys.map((key) => [key, this.data.get(key)]));
+  }
+
+  async deleteAll() {
+    this.data.clear();
+  }
+
+  async transaction<T>(closure: (txn: FakeStorage) => Promise<T>) {
+    return closure(this);
+  }
+
+  async getAlarm() {
+    return this.alarm;
+  }
+
+  async setAlarm(scheduledTime: number) {
+    this.alarm = scheduledTime;
+  }
+
+  async deleteAlarm() {
+    this.alarm = null;
+  }
+}
+
+class FakeWebSocket {
+  sent: Array<string | Uint8Array> = [];
+  private attachment: unknown = null;
+
+  constructor(session: UserSession | null) {
+    this.attachment = session;
+  }
+
+  serializeAttachment(value: unknown) {
+    this.attachment = value;
+  }
+
+  deserializeAttachment() {
+    return this.attachment;
+  }
+
+  send(frame: string | Uint8Array) {
+    this.sent.push(frame);
+  }
+
+  close() {}
+
+  messages() {
+    return this.sent.map((frame) => JSON.parse(frame as string));
+  }
+}
+
+function session(userId: string, role: UserRole): UserSession {
+  return { userId, userName: userId, role, roomId: 'room-1', protocolVersion: 4, joinedAt: Date.now() };
+}
+
+// 以休眠唤醒的方式创建房间：连接附件里已有用户会话
+async function createRoom(sockets: FakeWebSocket[]) {
+  let ready: Promise<unknown> = Promise.resolve();
+  const state = {
+    id: { toString: () => 'room-1' },
+    storage: new FakeStorage(),
+    getWebSockets: () => sockets,
+    blockConcurrencyWhile: (closure: () => Promise<unknown>) => (ready = closure()),
+  };
+  const chat = new Chat(state as unknown as DurableObjectState, { ROOM_TOKEN_SECRET: 'secret' } as never);
+  await ready;
+  return chat;
+}
+
+async function send(chat: Chat, ws: FakeWebSocket, message: object) {
+  await chat.webSocketMessage(ws as unknown as WebSocket, JSON.stringify(message));
+}
+
+describe('message path', () => {
+  let viewer: FakeWebSocket;
+  let editor: FakeWebSocket;
+  let chat: Chat;
+
+  beforeEach(async () => {
+    viewer = new FakeWebSocket(session('viewer', UserRole.VIEWER));
+    editor = new FakeWebSocket(session('editor', UserRole.EDITOR));
+    chat = await createRoom([viewer, editor]);
+  });
+
+  it('rejects a command the role may not send without acking or relaying it', async () => {
+    await send(chat, viewer, { type: RealTimeCommand.clear, requestId: 'r-1' });
+
+    expect(viewer.messages()).toEqual([
+      { type: RealTimeCommand.error, content: ErrorType.PERMISSION_DENIED, requestId: 'r-1', command: RealTimeCommand.clear },
+    ]);
+    expect(editor.sent).toEqual([]);
+  });
+
+  it('acks a permitted command with the seq it recorded and relays it', async () => {
+    await send(chat, editor, { type: RealTimeCommand.clear, requestId: 'r-2' });
+
+    const [broadcast] = viewer.messages();
+    expect(broadcast).toMatchObject({ type: RealTimeCommand.clear, seq: expect.any(Number) });
+    expect(editor.messages()).toContainEqual(expect.objectContaining({
+      type: RealTimeCommand.ack,
+      content: expect.objectContaining({ seq: broadcast.seq }),
+      requestId: 'r-2',
+    }));
+  });
+
+  it('rejects commands from a connection that has not joined', async () => {
+    const stranger = new FakeWebSocket(null);
+    await send(chat, stranger, { type: RealTimeCommand.clear, requestId: 'r-3' });
+
+    expect(stranger.messages()).toEqual([
+      expect.objectContaining({ type: RealTimeCommand.error, content: ErrorType.USER_NOT_JOINED, requestId: 'r-3' }),
+    ]);
+  });
+
+  it('rejects malformed frames before authorization', async () => {
+    await chat.webSocketMessage(viewer as unknown as WebSocket, '{"type":');
+
+    expect(viewer.messages()).toEqual([{ type: RealTimeCommand.error, content: ErrorType.INVALID_JSON }]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { decode, encode } from '@msgpack/msgpack';
+import { WireEncoding, decodeWireMessage, encodeWireMessage } from '../src/shared';
+
+const MESSAGES: Array<[string, object]> = [
+  ['ack', { type: 'ack', content: { seq: 42 }, requestId: 'r-1' }],
+  ['drawing update', {
+    type: 'drawingUpdate',
+    content: { id: 'stroke-1', action: 'addStrokes', model: JSON.stringify({ points: [[1, 2], [3.5, -4]] }) },
+    seq: 42,
+    version: 3,
+  }],
+  ['unicode chat', { type: 'chat', content: { message: '白板 ✏️ Ünïcødé' } }],
+  ['large integers and floats', { type: 'presence', content: { at: Number.MAX_SAFE_INTEGER, x: -1234.5678 } }],
+  ['batch', { type: 'batch', content: { operations: Array.from({ length: 20 }, (_, i) => ({ type: 'moveView', id: `o${i}` })) } }],
+];
+
+describe('wire frames', () => {
+  it.each(MESSAGES)('round-trips %s in every encoding', (_, message) => {
+    for (const encoding of [WireEncoding.json, WireEncoding.msgpack]) {
+      expect(decodeWireMessage(encodeWireMessage(message, encoding))).toEqual(message);
+    }
+  });
+
+  it('uses text frames for JSON and MessagePack bytes for msgpack', () => {
+    const message = MESSAGES[0][1];
+    expect(encodeWireMessage(message, WireEncoding.json)).toBe(JSON.stringify(message));
+    expect(decode(encodeWireMessage(message, WireEncoding.msgpack) as Uint8Array)).toEqual(message);
+  });
+
+  it('drops undefined fields like JSON.stringify', () => {
+    const message = { type: 'ack', content: { seq: 1 }, requestId: undefined };
+    const decoded = decodeWireMessage(encodeWireMessage(message, WireEncoding.msgpack));
+    expect(decoded).toEqual(JSON.parse(JSON.stringify(message)));
+    expect(Object.keys(decoded as object)).toEqual(['type', 'content']);
+  });
+
+  it('decodes text, binary JSON and MessagePack frames', () => {
+    const message = MESSAGES[0][1];
+    const json = JSON.stringify(message);
+    expect(decodeWireMessage(json)).toEqual(message);
+    expect(decodeWireMessage(new TextEncoder().encode(json))).toEqual(message);
+    expect(decodeWireMessage(new TextEncoder().encode(`\n ${json}`))).toEqual(message);
+    expect(decodeWireMessage(encode(message).slice().buffer)).toEqual(message);
+  });
+
+  it('rejects malformed frames', () => {
+    expect(() => decodeWireMessage('{"type":')).toThrow(SyntaxError);
+    expect(() => decodeWireMessage(new Uint8Array([0x7b, 0xff]))).toThrow(TypeError);
+    expect(() => decodeWireMessage(new Uint8Array([0x81]))).toThrow();
+    expect(() => decodeWireMessage(new Uint8Array([0xc0, 0xc0]))).toThrow();
+    expect(() => decodeWireMessage(new Uint8Array([0xc1]))).toThrow();
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { COMMAND_PERMISSIONS, RealTimeCommand, UserRole, hasCommandPermission } from '../src/shared';
+
+const { HOST, EDITOR, VIEWER } = UserRole;
+const ALL_ROLES = [HOST, EDITOR, VIEWER];
+
+// 期望的权限矩阵：每个命令都必须列出，新增命令时需要在这里补充
+const EXPECTED: Record<RealTimeCommand, ReadonlyArray<UserRole> | 'unrestricted'> = {
+  [RealTimeCommand.create]: 'unrestricted',
+  [RealTimeCommand.join]: 'unrestricted',
+  [RealTimeCommand.initSetup]: 'unrestricted',
+  [RealTimeCommand.initSetupBegin]: 'unrestricted',
+  [RealTimeCommand.initSetupChunk]: 'unrestricted',
+  [RealTimeCommand.initSetupEnd]: 'unrestricted',
+  [RealTimeCommand.userList]: 'unrestricted',
+  [RealTimeCommand.roomTokens]: 'unrestricted',
+  [RealTimeCommand.conflict]: 'unrestricted',
+  [RealTimeCommand.inviteCode]: 'unrestricted',
+  [RealTimeCommand.ack]: 'unrestricted',
+  [RealTimeCommand.error]: 'unrestricted',
+  [RealTimeCommand.chat]: ALL_ROLES,
+  [RealTimeCommand.chatHistory]: ALL_ROLES,
+  [RealTimeCommand.presence]: ALL_ROLES,
+  [RealTimeCommand.setFollowing]: ALL_ROLES,
+  [RealTimeCommand.userUpdate]: ALL_ROLES,
+  [RealTimeCommand.updateBackground]: [HOST, EDITOR],
+  [RealTimeCommand.updateMoveView]: [HOST, EDITOR],
+  [RealTimeCommand.deleteMoveView]: [HOST, EDITOR],
+  [RealTimeCommand.drawingUpdate]: [HOST, EDITOR],
+  [RealTimeCommand.clear]: [HOST, EDITOR],
+  [RealTimeCommand.undo]: [HOST, EDITOR],
+  [RealTimeCommand.redo]: [HOST, EDITOR],
+  [RealTimeCommand.lockObject]: [HOST, EDITOR],
+  [RealTimeCommand.unlockObject]: [HOST, EDITOR],
+  [RealTimeCommand.batch]: [HOST, EDITOR],
+  [RealTimeCommand.followMode]: [HOST],
+  [RealTimeCommand.createCheckpoint]: [HOST],
+  [RealTimeCommand.listCheckpoints]: [HOST],
+  [RealTimeCommand.restoreCheckpoint]: [HOST],
+  [RealTimeCommand.importBoard]: [HOST],
+  [RealTimeCommand.rotateInviteCode]: [HOST],
+  [RealTimeCommand.closeRoom]: [HOST],
+  [RealTimeCommand.setRole]: [HOST],
+  [RealTimeCommand.kickUser]: [HOST],
+  [RealTimeCommand.banUser]: [HOST],
+  [RealTimeCommand.transferHost]: [HOST],
+};
+
+const cases = Object.values(RealTimeCommand).flatMap((command) =>
+  ALL_ROLES.map((role) => {
+    const expected = EXPECTED[command];
+    return { command, role, allowed: expected === 'unrestricted' || expected.includes(role) };
+  })
+);
+
+describe('hasCommandPermission', () => {
+  it.each(cases)('$command as $role -> $allowed', ({ command, role, allowed }) => {
+    expect(hasCommandPermission(command, role)).toBe(allowed);
+  });
+
+  it.each(Object.values(RealTimeCommand))('%s without a session', (command) => {
+    expect(hasCommandPermission(command, undefined)).toBe(EXPECTED[command] === 'unrestricted');
+  });
+
+  it('only restricts commands listed in COMMAND_PERMISSIONS', () => {
+    const restricted = Object.values(RealTimeCommand).filter((command) => EXPECTED[command] !== 'unrestricted');
+    expect(Object.keys(COMMAND_PERMISSIONS).sort()).toEqual(restricted.sort());
+  });
+});